@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { ChestUser } from '@/types';
+import { loginUrl } from '@/lib/auth';
+import { clearPersonalCaches } from '@/lib/service-worker';
+
+interface AccountStatusProps {
+  user?: ChestUser | null;
+  returnTo: string; // Page to come back to after signing in
+}
+
+const linkStyle: React.CSSProperties = {
+  border: 'none',
+  background: 'none',
+  padding: 0,
+  color: 'inherit',
+  font: 'inherit',
+  textDecoration: 'underline',
+  cursor: 'pointer'
+};
+
+export function AccountStatus({ user, returnTo }: AccountStatusProps) {
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    try {
+      await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{}',
+      });
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    }
+    // Pages and audio saved for offline were this listener's
+    await clearPersonalCaches();
+    // Reload so the page renders server-side as a signed-out listener
+    window.location.reload();
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '16px',
+      right: '20px',
+      fontSize: '13px',
+      opacity: 0.7,
+      zIndex: 10
+    }}>
+      {user ? (
+        <>
+          {user.name} ·{' '}
+          {returnTo !== '/shares' && (
+            <>
+              <Link href="/shares" style={linkStyle}>Your shares</Link> ·{' '}
+            </>
+          )}
+          <button onClick={handleSignOut} disabled={isSigningOut} style={linkStyle}>
+            Sign out
+          </button>
+        </>
+      ) : (
+        <a href={loginUrl(returnTo)} style={linkStyle}>Sign in</a>
+      )}
+    </div>
+  );
+}
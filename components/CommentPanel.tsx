@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { ChestUser, CommentPolicy, TrackComment } from '@/types';
+import { formatTime } from '@/utils/time';
+
+interface CommentPanelProps {
+  comments: TrackComment[];
+  policy: CommentPolicy;
+  currentTime: number;
+  isLoading: boolean;
+  error: string | null;
+  onSeek: (position: number) => void;
+  onSubmit: (body: string, position: number, authorName?: string) => Promise<boolean>;
+  user?: ChestUser | null; // Signed in: comments go out under the account name
+  signInHref?: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '10px 12px',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '10px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: 'white',
+  fontSize: '14px',
+  fontFamily: 'inherit'
+};
+
+export function CommentPanel({ comments, policy, currentTime, isLoading, error, onSeek, onSubmit, user, signInHref }: CommentPanelProps) {
+  const [body, setBody] = useState('');
+  const [authorName, setAuthorName] = useState('');
+  // The comment sticks to where playback was when the listener started typing
+  const [pinnedAt, setPinnedAt] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (policy === 'disabled') return null;
+
+  const position = pinnedAt ?? currentTime;
+  const needsName = policy === 'anonymous' && !user;
+  const canSubmit = !!body.trim() && (!needsName || !!authorName.trim()) && !isSubmitting;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    const posted = await onSubmit(body, position, needsName ? authorName : undefined);
+    setIsSubmitting(false);
+    if (posted) {
+      setBody('');
+      setPinnedAt(null);
+    }
+  };
+
+  return (
+    <section style={{ marginTop: '24px', textAlign: 'left' }}>
+      <h2 style={{ margin: '0 0 12px 0', fontSize: '15px', fontWeight: 600 }}>
+        Comments{comments.length ? ` · ${comments.length}` : ''}
+      </h2>
+
+      {isLoading && (
+        <p style={{ margin: '0 0 12px 0', fontSize: '13px', opacity: 0.6 }}>Loading comments…</p>
+      )}
+
+      {comments.length > 0 && (
+        <ol style={{ listStyle: 'none', margin: '0 0 16px 0', padding: 0, maxHeight: '240px', overflowY: 'auto' }}>
+          {comments.map((comment) => (
+            <li key={comment.id} style={{ display: 'flex', gap: '10px', padding: '8px 0' }}>
+              <button
+                onClick={() => onSeek(comment.position)}
+                aria-label={`Play from ${formatTime(comment.position)}`}
+                style={{
+                  flexShrink: 0,
+                  height: '22px',
+                  padding: '0 8px',
+                  border: 'none',
+                  borderRadius: '11px',
+                  background: 'rgba(96, 165, 250, 0.2)',
+                  color: '#93c5fd',
+                  fontSize: '12px',
+                  fontVariantNumeric: 'tabular-nums',
+                  cursor: 'pointer'
+                }}
+              >
+                {formatTime(comment.position)}
+              </button>
+              <div style={{ minWidth: 0 }}>
+                <span style={{ display: 'block', fontSize: '13px', fontWeight: 600 }}>
+                  {comment.author_name}
+                </span>
+                <span style={{ display: 'block', fontSize: '14px', opacity: 0.85, lineHeight: 1.4, wordBreak: 'break-word' }}>
+                  {comment.body}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {policy === 'authenticated' && !user ? (
+        <p style={{ margin: 0, fontSize: '13px', opacity: 0.6 }}>
+          {signInHref ? (
+            <a href={signInHref} style={{ color: 'inherit', textDecoration: 'underline' }}>Sign in</a>
+          ) : 'Sign in'} to leave a comment.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {user && (
+            <p style={{ margin: 0, fontSize: '12px', opacity: 0.6 }}>Commenting as {user.name}</p>
+          )}
+          {needsName && (
+            <input
+              type="text"
+              value={authorName}
+              onChange={(e) => setAuthorName(e.target.value)}
+              placeholder="Your name"
+              maxLength={60}
+              style={inputStyle}
+            />
+          )}
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onFocus={() => setPinnedAt((prev) => prev ?? currentTime)}
+            placeholder={`Comment at ${formatTime(position)}`}
+            rows={2}
+            maxLength={1000}
+            style={{ ...inputStyle, resize: 'vertical' }}
+          />
+          {error && (
+            <p style={{ margin: 0, fontSize: '13px', color: '#fca5a5' }}>{error}</p>
+          )}
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+            {pinnedAt !== null ? (
+              <button
+                type="button"
+                onClick={() => setPinnedAt(currentTime)}
+                style={{ border: 'none', background: 'none', color: 'white', opacity: 0.6, fontSize: '12px', cursor: 'pointer', padding: 0 }}
+              >
+                At {formatTime(pinnedAt)} · use current time
+              </button>
+            ) : <span />}
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              style={{
+                padding: '8px 16px',
+                border: 'none',
+                borderRadius: '18px',
+                background: 'white',
+                color: 'black',
+                fontSize: '13px',
+                fontWeight: 500,
+                cursor: canSubmit ? 'pointer' : 'not-allowed',
+                opacity: canSubmit ? 1 : 0.5
+              }}
+            >
+              {isSubmitting ? 'Posting…' : 'Post'}
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
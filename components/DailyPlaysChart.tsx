@@ -0,0 +1,63 @@
+import React from 'react';
+import { ShareDailyPlays } from '@/types';
+import { formatDay } from '@/utils/time';
+
+interface DailyPlaysChartProps {
+  days: ShareDailyPlays[];
+  height?: number;
+}
+
+const BAR_COLOR = '#60a5fa';
+const AXIS_COLOR = 'rgba(255, 255, 255, 0.15)';
+
+// Bars are laid out in viewBox units and stretched to the container's width
+const BAR_WIDTH = 8;
+const BAR_GAP = 2;
+const CHART_HEIGHT = 100;
+
+export function DailyPlaysChart({ days, height = 120 }: DailyPlaysChartProps) {
+  if (!days.length) {
+    return <p style={{ margin: 0, fontSize: '13px', opacity: 0.6 }}>No plays yet.</p>;
+  }
+
+  const max = Math.max(1, ...days.map((day) => day.plays));
+  const total = days.reduce((sum, day) => sum + day.plays, 0);
+  const width = days.length * (BAR_WIDTH + BAR_GAP);
+
+  return (
+    <figure style={{ margin: 0 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', opacity: 0.6, marginBottom: '4px' }}>
+        <span>Plays per day</span>
+        <span>max {max}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${width} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`${total} plays over ${days.length} days, at most ${max} a day`}
+        style={{ display: 'block', width: '100%', height }}
+      >
+        <line x1={0} y1={CHART_HEIGHT} x2={width} y2={CHART_HEIGHT} stroke={AXIS_COLOR} vectorEffect="non-scaling-stroke" />
+        {days.map((day, index) => {
+          const barHeight = (day.plays / max) * CHART_HEIGHT;
+          return (
+            <rect
+              key={day.date}
+              x={index * (BAR_WIDTH + BAR_GAP) + BAR_GAP / 2}
+              y={CHART_HEIGHT - barHeight}
+              width={BAR_WIDTH}
+              height={barHeight}
+              fill={BAR_COLOR}
+            >
+              <title>{`${formatDay(day.date)}: ${day.plays} ${day.plays === 1 ? 'play' : 'plays'}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <figcaption style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', opacity: 0.6, marginTop: '4px' }}>
+        <span>{formatDay(days[0].date)}</span>
+        <span>{formatDay(days[days.length - 1].date)}</span>
+      </figcaption>
+    </figure>
+  );
+}
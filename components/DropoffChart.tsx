@@ -0,0 +1,58 @@
+import React from 'react';
+import { ShareDropoffPoint } from '@/types';
+
+interface DropoffChartProps {
+  points: ShareDropoffPoint[];
+  height?: number;
+}
+
+const LINE_COLOR = '#facc15';
+const FILL_COLOR = 'rgba(250, 204, 21, 0.15)';
+const GRID_COLOR = 'rgba(255, 255, 255, 0.15)';
+
+// Both axes are percentages, so the viewBox is 100 by 100
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+/**
+ * Share of plays still going at each point of the track: where listeners drop off
+ */
+export function DropoffChart({ points, height = 120 }: DropoffChartProps) {
+  if (points.length < 2) {
+    return <p style={{ margin: 0, fontSize: '13px', opacity: 0.6 }}>Not enough listening data yet.</p>;
+  }
+
+  const sorted = points.slice().sort((a, b) => a.position - b.position);
+  const line = sorted.map((point) => `${clamp(point.position)},${100 - clamp(point.listeners)}`).join(' ');
+  const first = clamp(sorted[0].position);
+  const last = clamp(sorted[sorted.length - 1].position);
+  const finished = Math.round(clamp(sorted[sorted.length - 1].listeners));
+
+  return (
+    <figure style={{ margin: 0 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', opacity: 0.6, marginBottom: '4px' }}>
+        <span>Listeners still playing</span>
+        <span>{finished}% reach the end</span>
+      </div>
+      <svg
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`Listener drop-off: ${finished}% of plays reach the end of the track`}
+        style={{ display: 'block', width: '100%', height }}
+      >
+        {[25, 50, 75].map((y) => (
+          <line key={y} x1={0} y1={y} x2={100} y2={y} stroke={GRID_COLOR} strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+        ))}
+        <polygon points={`${first},100 ${line} ${last},100`} fill={FILL_COLOR} />
+        <polyline points={line} fill="none" stroke={LINE_COLOR} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <figcaption style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', opacity: 0.6, marginTop: '4px' }}>
+        <span>Start</span>
+        <span>Middle</span>
+        <span>End</span>
+      </figcaption>
+    </figure>
+  );
+}
@@ -1,12 +1,14 @@
 import React from 'react';
+import { PlayLimitMode } from '@/types';
 
 interface PlayLimitBannerProps {
   playCount: number;
   playLimit: number;
   isSharedLink: boolean;
+  limitMode?: PlayLimitMode; // 'listener' counts down this listener's own plays
 }
 
-export function PlayLimitBanner({ playCount, playLimit, isSharedLink }: PlayLimitBannerProps) {
+export function PlayLimitBanner({ playCount, playLimit, isSharedLink, limitMode = 'link' }: PlayLimitBannerProps) {
   if (!isSharedLink || !playLimit || playLimit <= 0) {
     return null;
   }
@@ -18,7 +20,7 @@ export function PlayLimitBanner({ playCount, playLimit, isSharedLink }: PlayLimi
       <div className="px-6 py-3 bg-gray-800 rounded-t-xl border border-gray-600">
         <span className="text-yellow-400 font-medium">{remaining}</span>
         <span className="text-white ml-1">
-          of {playLimit} plays remaining
+          of {playLimit} plays remaining{limitMode === 'listener' && ' for you'}
         </span>
       </div>
     </div>
@@ -1,14 +1,87 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { ApiErrorCode, describeApiError } from '@/lib/api-errors';
+import { UsePlayRequestReturn } from '@/hooks/usePlayRequest';
+import { PlayLimitMode } from '@/types';
 
 interface PlayLimitModalProps {
   isOpen: boolean;
   onClose: () => void;
   trackName?: string;
+  errorCode?: ApiErrorCode | null; // Set when the play was refused for another reason than the limit
+  limitMode?: PlayLimitMode;
+  playRequest?: UsePlayRequestReturn; // Offers "Request more plays" when given
 }
 
-export function PlayLimitModal({ isOpen, onClose, trackName }: PlayLimitModalProps) {
+// Ask the owner for more plays, then follow the answer
+function PlayRequestForm({ playRequest }: { playRequest: UsePlayRequestReturn }) {
+  const [message, setMessage] = useState('');
+  const [email, setEmail] = useState('');
+
+  if (playRequest.status === 'pending') {
+    return (
+      <p className="text-gray-300 text-sm mb-4">
+        Request sent. This will update as soon as the artist answers.
+      </p>
+    );
+  }
+  if (playRequest.status === 'approved') {
+    return (
+      <p className="text-green-400 text-sm mb-4">
+        The artist approved your request. Press play to keep listening.
+      </p>
+    );
+  }
+  if (playRequest.status === 'denied') {
+    return (
+      <p className="text-gray-400 text-sm mb-4">
+        The artist declined this request.
+      </p>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await playRequest.submit(message, email)) {
+      setMessage('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2 mb-4 text-left">
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder="Message to the artist (optional)"
+        rows={2}
+        maxLength={500}
+        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+      />
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Your email (optional)"
+        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+      />
+      {playRequest.error && (
+        <p className="text-red-300 text-sm">{playRequest.error}</p>
+      )}
+      <button
+        type="submit"
+        disabled={playRequest.isSubmitting}
+        className="px-4 py-2 bg-yellow-500 text-yellow-900 rounded-md hover:bg-yellow-400 transition-colors disabled:opacity-60"
+      >
+        {playRequest.isSubmitting ? 'Sending…' : 'Request more plays'}
+      </button>
+    </form>
+  );
+}
+
+export function PlayLimitModal({ isOpen, onClose, trackName, errorCode, limitMode = 'link', playRequest }: PlayLimitModalProps) {
   if (!isOpen) return null;
 
+  const refusal = errorCode && errorCode !== 'limit_reached' ? describeApiError(errorCode) : null;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       {/* Backdrop */}
@@ -27,12 +100,18 @@ export function PlayLimitModal({ isOpen, onClose, trackName }: PlayLimitModalPro
               </svg>
             </div>
             <h3 className="text-lg font-medium text-white mb-2">
-              Play Limit Reached
+              {refusal ? refusal.title : 'Play Limit Reached'}
             </h3>
             <p className="text-gray-300 text-sm">
-              {trackName ? `"${trackName}"` : 'This track'} has reached its play limit for shared links.
+              {refusal
+                ? refusal.message
+                : limitMode === 'listener'
+                  ? `You've used all your plays of ${trackName ? `"${trackName}"` : 'this track'} on this link.`
+                  : `${trackName ? `"${trackName}"` : 'This track'} has reached its play limit for shared links.`}
             </p>
           </div>
+
+          {!refusal && playRequest && <PlayRequestForm playRequest={playRequest} />}
           
           <div className="flex justify-center">
             <button
@@ -1,283 +1,418 @@
 /**
  * Enhanced PlayerBar Component
- * 
+ *
  * A modern, glassmorphism-styled music player with Apple Music/Spotify-inspired design.
- * 
+ * Playback itself lives in the headless PlayerEngine (see hooks/usePlayer); this
+ * component only renders it.
+ *
  * Features:
  * - Play/pause with smooth animations and visual feedback
  * - Progress bar with scrubbing support and time display
+ * - Optional waveform (precomputed peaks or decoded from the audio) with hover time
+ * - Markers on the progress bar (e.g. timestamped comments) that seek on click
  * - Volume control with floating glassmorphism slider
- * - Loop and shuffle functionality
+ * - Repeat (off/all/one) and shuffle over a real play queue
  * - Playing indicator with animated waves
  * - Full keyboard accessibility (Space, Arrow keys, M, L, S)
+ * - Lock screen, notification and media key controls via the Media Session API
+ * - "Resume from 12:34?" prompt for tracks left part-way through
+ * - "Copy link at current time" for ?t= deep links into the track
+ * - Share dialog for owners to create limited links with a QR code and embed snippet (full variant)
  * - Responsive design for mobile and desktop
  * - Smart track navigation (restart vs previous)
  * - Glassmorphism UI with backdrop blur effects
- * 
+ *
  * @param tracks - Array of track objects to play
+ * @param player - Optional player from usePlayer; the bar then renders it instead of owning one
  * @param onTrackChange - Optional callback when track changes
+ * @param onBeforePlay - Optional guard; returning false refuses playback
+ * @param onPlayCounted - Optional callback fired once per play after the listen threshold
+ * @param playCountThreshold - Listen time after which a play counts (defaults to 30s or 50%)
+ * @param onProgress - Optional callback with position updates while playing, on pause and on end
+ * @param resolveSource - Optional resolver for tracks without a url, called right before playback
+ * @param waveform - Render the progress bar as a waveform of the current track
+ * @param markers - Optional points in the current track to mark on the progress bar
+ * @param theme - Color scheme, dark by default
+ * @param embedded - Fill the container instead of floating at the bottom of the page (iframes)
+ * @param resumeOffer - Saved position to offer resuming from (see usePlayerPersistence)
+ * @param shareLink - Optional link to the track; adds a button copying it at the current time
+ * @param shareClient - Client signed in as the tracks' owner; adds a button creating share links (full variant)
  */
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Track, PlayerState } from '@/types';
+import {
+  Track,
+  PlayCountThreshold,
+  PlaybackProgress,
+  ProgressMarker,
+  RepeatMode,
+  ResolvedSource,
+  ResumeOffer,
+} from '@/types';
+import type ChestAPIClient from '@/lib/api-client';
+import { usePlayer, UsePlayerReturn } from '@/hooks/usePlayer';
+import { useWaveformPeaks } from '@/hooks/useWaveformPeaks';
+import { useMediaSession } from '@/hooks/useMediaSession';
+import { Waveform } from '@/components/Waveform';
+import { ShareDialog } from '@/components/ShareDialog';
+import { linkAtTime } from '@/lib/urls';
+import { copyToClipboard } from '@/utils/clipboard';
+import { formatTime } from '@/utils/time';
 import styles from '@/styles/player.module.css';
 
+type PlayerBarVariant = 'full' | 'minimal'; // full = all controls, minimal = share page version
+type PlayerBarTheme = 'dark' | 'light';
+
 interface PlayerBarProps {
-  tracks: Track[];
+  tracks?: Track[];
+  player?: UsePlayerReturn;
   onTrackChange?: (trackIndex: number) => void;
-  variant?: 'full' | 'minimal'; // full = all controls, minimal = share page version
+  variant?: PlayerBarVariant;
+  onBeforePlay?: (track: Track, trackIndex: number) => boolean | Promise<boolean>;
+  onPlayCounted?: () => void;
+  playCountThreshold?: PlayCountThreshold;
+  onProgress?: (progress: PlaybackProgress) => void;
+  resolveSource?: (track: Track) => Promise<ResolvedSource>;
+  gapless?: boolean;
+  crossfade?: number;
+  waveform?: boolean;
+  markers?: ProgressMarker[];
+  theme?: PlayerBarTheme;
+  embedded?: boolean;
+  resumeOffer?: ResumeOffer | null;
+  shareLink?: string;
+  shareClient?: ChestAPIClient;
+}
+
+interface PlayerViewProps {
+  player: UsePlayerReturn;
 }
 
-const PlayerBar: React.FC<PlayerBarProps> = ({ tracks, onTrackChange, variant = 'full' }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
+// Describes what clicking the repeat button will do next
+const REPEAT_LABELS: Record<RepeatMode, string> = {
+  off: 'Repeat all',
+  all: 'Repeat one',
+  one: 'Disable repeat',
+};
+
+const PlayPauseIcon: React.FC<{ isPlaying: boolean }> = ({ isPlaying }) => (
+  isPlaying ? (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+      <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
+    </svg>
+  ) : (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+      <path d="M8 5v14l11-7z"/>
+    </svg>
+  )
+);
+
+const VolumeIcon: React.FC<{ volume: number; isMuted: boolean; size: number }> = ({ volume, isMuted, size }) => {
+  if (isMuted || volume === 0) {
+    return (
+      <svg width={size} height={size} viewBox="0 0 24 24" fill="currentColor">
+        <path d="M16.5 12c0-1.77-1.02-3.29-2.5-4.03v2.21l2.45 2.45c.03-.2.05-.41.05-.63zm2.5 0c0 .94-.2 1.82-.54 2.64l1.51 1.51C20.63 14.91 21 13.5 21 12c0-4.28-2.99-7.86-7-8.77v2.06c2.89.86 5 3.54 5 6.71zM4.27 3L3 4.27 7.73 9H3v6h4l5 5v-6.73l4.25 4.25c-.67.52-1.42.93-2.25 1.18v2.06c1.38-.31 2.63-.95 3.69-1.81L19.73 21 21 19.73l-9-9L4.27 3zM12 4L9.91 6.09 12 8.18V4z"/>
+      </svg>
+    );
+  }
+
+  if (volume < 0.5) {
+    return (
+      <svg width={size} height={size} viewBox="0 0 24 24" fill="currentColor">
+        <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02z"/>
+      </svg>
+    );
+  }
+
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" fill="currentColor">
+      <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02zM14 3.23v2.06c2.89.86 5 3.54 5 6.71s-2.11 5.85-5 6.71v2.06c4.01-.91 7-4.49 7-8.77s-2.99-7.86-7-8.77z"/>
+    </svg>
+  );
+};
+
+// Drag-to-seek progress bar shared by both variants
+const ProgressSection: React.FC<PlayerViewProps & {
+  sectionClassName: string;
+  barClassName: string;
+  timeClassName: string;
+  waveformClassName: string;
+  peaks: number[] | null;
+  markers?: ProgressMarker[];
+}> = ({ player, sectionClassName, barClassName, timeClassName, waveformClassName, peaks, markers }) => {
   const progressRef = useRef<HTMLDivElement>(null);
-  const volumeRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [isVolumeDragging, setIsVolumeDragging] = useState(false);
-  
-  const [playerState, setPlayerState] = useState<PlayerState>({
-    isPlaying: false,
-    currentTime: 0,
-    duration: 0,
-    currentTrackIndex: 0,
-    volume: 1,
-    isMuted: false,
-    isLooping: false,
-    isShuffled: false,
-    showVolumeSlider: false,
-  });
+  const [hoverRatio, setHoverRatio] = useState<number | null>(null);
+  const { engine, state } = player;
 
-  const currentTrack = tracks[playerState.currentTrackIndex];
+  const pointerRatio = useCallback((clientX: number): number | null => {
+    const progressBar = progressRef.current;
+    if (!progressBar) return null;
 
-  // Format time helper
-  const formatTime = useCallback((time: number) => {
-    if (!time || isNaN(time)) return '0:00';
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+    const rect = progressBar.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
   }, []);
 
-  // Audio setup and event listeners
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const updateTime = () => {
-      if (!isDragging) {
-        setPlayerState(prev => ({
-          ...prev,
-          currentTime: audio.currentTime,
-          duration: audio.duration || 0,
-        }));
-      }
-    };
+  const seekToPointer = useCallback((clientX: number) => {
+    const ratio = pointerRatio(clientX);
+    if (ratio === null) return;
 
-    const handleLoadedMetadata = () => {
-      setPlayerState(prev => ({
-        ...prev,
-        duration: audio.duration || 0,
-      }));
-    };
+    setHoverRatio(ratio);
+    engine.seek(ratio * engine.getState().duration);
+  }, [engine, pointerRatio]);
 
-    const handleEnded = () => {
-      if (playerState.isLooping) {
-        audio.currentTime = 0;
-        audio.play();
-      } else {
-        setPlayerState(prev => ({ ...prev, isPlaying: false }));
-      }
-    };
+  // Global mouse events for dragging
+  useEffect(() => {
+    if (!isDragging) return;
 
-    audio.addEventListener('timeupdate', updateTime);
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
-    audio.addEventListener('ended', handleEnded);
+    const handleMouseMove = (e: MouseEvent) => seekToPointer(e.clientX);
+    const handleMouseUp = () => {
+      setIsDragging(false);
+      setHoverRatio(null);
+    };
 
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
     return () => {
-      audio.removeEventListener('timeupdate', updateTime);
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-      audio.removeEventListener('ended', handleEnded);
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, playerState.isLooping]);
-
-  // Volume control
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    
-    audio.volume = playerState.isMuted ? 0 : playerState.volume;
-  }, [playerState.volume, playerState.isMuted]);
+  }, [isDragging, seekToPointer]);
 
-  // Track change effect
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    
-    audio.load(); // Reload new track
-    if (playerState.isPlaying) {
-      audio.play().catch(console.error);
-    }
-  }, [playerState.currentTrackIndex, playerState.isPlaying]);
-
-  // Enhanced play/pause with animation feedback
-  const togglePlayPause = () => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    if (playerState.isPlaying) {
-      audio.pause();
-      setPlayerState(prev => ({ ...prev, isPlaying: false }));
-    } else {
-      audio.play().then(() => {
-        setPlayerState(prev => ({ ...prev, isPlaying: true }));
-      }).catch(console.error);
-    }
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    setIsDragging(true);
+    seekToPointer(e.clientX);
   };
 
-  // Smart track navigation
-  const skipForward = () => {
-    let newIndex = playerState.currentTrackIndex;
-    
-    if (playerState.isShuffled) {
-      // Random track selection
-      do {
-        newIndex = Math.floor(Math.random() * tracks.length);
-      } while (newIndex === playerState.currentTrackIndex && tracks.length > 1);
-    } else {
-      newIndex = playerState.currentTrackIndex < tracks.length - 1 ? playerState.currentTrackIndex + 1 : 0;
-    }
-    
-    setPlayerState(prev => ({ ...prev, currentTrackIndex: newIndex }));
-    onTrackChange?.(newIndex);
-  };
+  const progress = (state.currentTime / state.duration) * 100 || 0;
+
+  const markerElements = state.duration > 0 && markers?.map((marker) => (
+    <span
+      key={marker.id}
+      className={styles.progressMarker}
+      style={{ left: `${Math.min(100, (marker.position / state.duration) * 100)}%` }}
+      title={marker.label ? `${formatTime(marker.position)} · ${marker.label}` : formatTime(marker.position)}
+      onMouseDown={(e) => {
+        e.stopPropagation();
+        engine.seek(marker.position);
+      }}
+    />
+  ));
 
-  const skipBackward = () => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    // If more than 3 seconds played, restart current track
-    if (audio.currentTime > 3) {
-      audio.currentTime = 0;
-      setPlayerState(prev => ({ ...prev, currentTime: 0 }));
-      return;
-    }
-
-    let newIndex = playerState.currentTrackIndex;
-    
-    if (playerState.isShuffled) {
-      // Random track selection
-      do {
-        newIndex = Math.floor(Math.random() * tracks.length);
-      } while (newIndex === playerState.currentTrackIndex && tracks.length > 1);
-    } else {
-      newIndex = playerState.currentTrackIndex > 0 ? playerState.currentTrackIndex - 1 : tracks.length - 1;
-    }
-    
-    setPlayerState(prev => ({ ...prev, currentTrackIndex: newIndex }));
-    onTrackChange?.(newIndex);
-  };
+  return (
+    <div className={sectionClassName}>
+      <span className={timeClassName}>
+        {formatTime(state.currentTime)}
+      </span>
+
+      {peaks ? (
+        <div
+          ref={progressRef}
+          className={`${styles.waveformBar} ${waveformClassName}`}
+          onMouseDown={handleMouseDown}
+          onMouseMove={(e) => setHoverRatio(pointerRatio(e.clientX))}
+          onMouseLeave={() => !isDragging && setHoverRatio(null)}
+        >
+          <Waveform
+            peaks={peaks}
+            progress={progress / 100}
+            hoverProgress={hoverRatio}
+          />
+          {hoverRatio !== null && state.duration > 0 && (
+            <span
+              className={styles.waveformHoverTime}
+              style={{ left: `${hoverRatio * 100}%` }}
+            >
+              {formatTime(hoverRatio * state.duration)}
+            </span>
+          )}
+          {markerElements}
+        </div>
+      ) : (
+        <div
+          ref={progressRef}
+          className={`${barClassName} ${isDragging ? styles.dragging : ''}`}
+          onMouseDown={handleMouseDown}
+        >
+          <div
+            className={styles.progressTrack}
+            style={{ width: `${progress}%` }}
+          />
+          <div
+            className={styles.progressThumb}
+            style={{ left: `${progress}%` }}
+          />
+          {markerElements}
+        </div>
+      )}
 
-  // Enhanced progress handling with scrubbing
-  const handleProgressInteraction = useCallback((e: React.MouseEvent<HTMLDivElement> | MouseEvent) => {
-    const audio = audioRef.current;
-    const progressBar = progressRef.current;
-    if (!audio || !progressBar) return;
+      <span className={timeClassName}>
+        {formatTime(state.duration)}
+      </span>
+    </div>
+  );
+};
 
-    const rect = progressBar.getBoundingClientRect();
-    const clickX = e.clientX - rect.left;
-    const width = rect.width;
-    const newTime = (clickX / width) * playerState.duration;
-    
-    audio.currentTime = newTime;
-    setPlayerState(prev => ({ ...prev, currentTime: newTime }));
-  }, [playerState.duration]);
-
-  const handleProgressMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-    setIsDragging(true);
-    handleProgressInteraction(e);
-  };
+const ResumePrompt: React.FC<{ offer: ResumeOffer }> = ({ offer }) => (
+  <div className={styles.resumePrompt}>
+    <button onClick={offer.resume} className={styles.resumeBtn}>
+      Resume from {formatTime(offer.position)}?
+    </button>
+    <button onClick={offer.dismiss} className={styles.resumeDismiss} aria-label="Start from the beginning">
+      <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+      </svg>
+    </button>
+  </div>
+);
+
+// How long the copy button shows its confirmation
+const COPIED_FEEDBACK_MS = 2000;
+
+const CopyLinkButton: React.FC<PlayerViewProps & {
+  link: string;
+  buttonClassName: string;
+  iconSize: number;
+}> = ({ player, link, buttonClassName, iconSize }) => {
+  const [copied, setCopied] = useState(false);
 
-  // Volume controls
-  const toggleMute = () => {
-    setPlayerState(prev => ({ ...prev, isMuted: !prev.isMuted }));
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    // Read the engine directly; the rendered time may be a tick behind
+    const url = linkAtTime(link, player.engine.getState().currentTime);
+    setCopied(await copyToClipboard(url));
   };
 
-  const toggleVolumeSlider = () => {
-    setPlayerState(prev => ({ ...prev, showVolumeSlider: !prev.showVolumeSlider }));
-  };
+  return (
+    <button
+      onClick={handleCopy}
+      className={buttonClassName}
+      aria-label={copied ? 'Link copied' : 'Copy link at current time'}
+      title={copied ? 'Copied' : `Copy link at ${formatTime(player.state.currentTime)}`}
+    >
+      {copied ? (
+        <svg width={iconSize} height={iconSize} viewBox="0 0 24 24" fill="currentColor">
+          <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
+        </svg>
+      ) : (
+        <svg width={iconSize} height={iconSize} viewBox="0 0 24 24" fill="currentColor">
+          <path d="M3.9 12c0-1.71 1.39-3.1 3.1-3.1h4V7H7c-2.76 0-5 2.24-5 5s2.24 5 5 5h4v-1.9H7c-1.71 0-3.1-1.39-3.1-3.1zM8 13h8v-2H8v2zm9-6h-4v1.9h4c1.71 0 3.1 1.39 3.1 3.1s-1.39 3.1-3.1 3.1h-4V17h4c2.76 0 5-2.24 5-5s-2.24-5-5-5z"/>
+        </svg>
+      )}
+    </button>
+  );
+};
 
-  const handleVolumeChange = useCallback((e: React.MouseEvent<HTMLDivElement> | MouseEvent) => {
+// Volume button with floating slider shared by both variants
+const VolumeControl: React.FC<PlayerViewProps & {
+  sectionClassName: string;
+  buttonClassName: string;
+  iconSize: number;
+}> = ({ player, sectionClassName, buttonClassName, iconSize }) => {
+  const sectionRef = useRef<HTMLDivElement>(null);
+  const volumeRef = useRef<HTMLDivElement>(null);
+  const [showSlider, setShowSlider] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const { engine, state } = player;
+
+  const setVolumeFromPointer = useCallback((clientX: number) => {
     const volumeBar = volumeRef.current;
     if (!volumeBar) return;
 
     const rect = volumeBar.getBoundingClientRect();
-    const clickX = e.clientX - rect.left;
-    const width = rect.width;
-    const newVolume = Math.max(0, Math.min(1, clickX / width));
-    
-    setPlayerState(prev => ({ 
-      ...prev, 
-      volume: newVolume,
-      isMuted: newVolume === 0
-    }));
-  }, []);
-
-  const handleVolumeMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-    setIsVolumeDragging(true);
-    handleVolumeChange(e);
-  };
-
-  // Toggle controls
-  const toggleLoop = () => {
-    setPlayerState(prev => ({ ...prev, isLooping: !prev.isLooping }));
-  };
-
-  const toggleShuffle = () => {
-    setPlayerState(prev => ({ ...prev, isShuffled: !prev.isShuffled }));
-  };
+    engine.setVolume((clientX - rect.left) / rect.width);
+  }, [engine]);
 
   // Global mouse events for dragging
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (isDragging) {
-        handleProgressInteraction(e);
-      }
-      if (isVolumeDragging) {
-        handleVolumeChange(e);
-      }
-    };
+    if (!isDragging) return;
 
-    const handleMouseUp = () => {
-      setIsDragging(false);
-      setIsVolumeDragging(false);
-    };
-
-    if (isDragging || isVolumeDragging) {
-      document.addEventListener('mousemove', handleMouseMove);
-      document.addEventListener('mouseup', handleMouseUp);
-    }
+    const handleMouseMove = (e: MouseEvent) => setVolumeFromPointer(e.clientX);
+    const handleMouseUp = () => setIsDragging(false);
 
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
     return () => {
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, isVolumeDragging, handleProgressInteraction, handleVolumeChange]);
+  }, [isDragging, setVolumeFromPointer]);
 
   // Close volume slider when clicking outside
   useEffect(() => {
+    if (!showSlider) return;
+
     const handleClickOutside = (e: MouseEvent) => {
-      if (playerState.showVolumeSlider && volumeRef.current && !volumeRef.current.contains(e.target as Node)) {
-        setPlayerState(prev => ({ ...prev, showVolumeSlider: false }));
+      if (sectionRef.current && !sectionRef.current.contains(e.target as Node)) {
+        setShowSlider(false);
       }
     };
 
-    if (playerState.showVolumeSlider) {
-      document.addEventListener('mousedown', handleClickOutside);
-    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showSlider]);
 
-    return () => {
-      document.removeEventListener('mousedown', handleClickOutside);
-    };
-  }, [playerState.showVolumeSlider]);
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    setIsDragging(true);
+    setVolumeFromPointer(e.clientX);
+  };
+
+  const level = state.isMuted ? 0 : state.volume * 100;
+
+  return (
+    <div className={sectionClassName} ref={sectionRef}>
+      <button
+        onClick={() => setShowSlider(prev => !prev)}
+        className={buttonClassName}
+        aria-label={`Volume ${Math.round(state.volume * 100)}%`}
+        title="Volume (M to mute)"
+      >
+        <VolumeIcon volume={state.volume} isMuted={state.isMuted} size={iconSize} />
+      </button>
+
+      {/* Volume Slider */}
+      {showSlider && (
+        <div className={styles.volumeSlider}>
+          <div
+            ref={volumeRef}
+            className={styles.volumeBar}
+            onMouseDown={handleMouseDown}
+          >
+            <div
+              className={styles.volumeFill}
+              style={{ width: `${level}%` }}
+            />
+            <div
+              className={styles.volumeThumb}
+              style={{ left: `${level}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PlayerBarView: React.FC<PlayerViewProps & {
+  variant: PlayerBarVariant;
+  waveform: boolean;
+  markers?: ProgressMarker[];
+  theme?: PlayerBarTheme;
+  embedded?: boolean;
+  resumeOffer?: ResumeOffer | null;
+  shareLink?: string;
+  shareClient?: ChestAPIClient;
+}> = ({ player, variant, waveform, markers, theme = 'dark', embedded = false, resumeOffer, shareLink, shareClient }) => {
+  const { engine, state, currentTrack } = player;
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const closeShare = useCallback(() => setIsShareOpen(false), []);
+  const peaks = useWaveformPeaks(player, waveform);
+  useMediaSession(player);
 
   // Keyboard accessibility
   useEffect(() => {
@@ -290,157 +425,98 @@ const PlayerBar: React.FC<PlayerBarProps> = ({ tracks, onTrackChange, variant =
         case ' ':
         case 'k':
           e.preventDefault();
-          togglePlayPause();
+          engine.toggle();
           break;
         case 'ArrowLeft':
           e.preventDefault();
-          skipBackward();
+          engine.prev();
           break;
         case 'ArrowRight':
           e.preventDefault();
-          skipForward();
+          engine.next();
           break;
         case 'ArrowUp':
           e.preventDefault();
-          setPlayerState(prev => ({ 
-            ...prev, 
-            volume: Math.min(1, prev.volume + 0.1),
-            isMuted: false
-          }));
+          engine.setVolume(engine.getState().volume + 0.1);
           break;
         case 'ArrowDown':
           e.preventDefault();
-          setPlayerState(prev => ({ 
-            ...prev, 
-            volume: Math.max(0, prev.volume - 0.1),
-            isMuted: prev.volume - 0.1 <= 0
-          }));
+          engine.setVolume(engine.getState().volume - 0.1);
           break;
         case 'm':
           e.preventDefault();
-          toggleMute();
+          engine.toggleMute();
           break;
         case 'l':
           e.preventDefault();
-          toggleLoop();
+          engine.cycleRepeatMode();
           break;
         case 's':
           e.preventDefault();
-          toggleShuffle();
+          engine.toggleShuffle();
           break;
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [togglePlayPause, skipBackward, skipForward, toggleMute, toggleLoop, toggleShuffle]);
+  }, [engine]);
 
   if (!currentTrack) return null;
 
+  const barClassName = [
+    styles.playerBar,
+    variant === 'minimal' ? styles.minimal : '',
+    theme === 'light' ? styles.light : '',
+    embedded ? styles.embedded : '',
+  ].filter(Boolean).join(' ');
+
   if (variant === 'minimal') {
     return (
-      <div className={`${styles.playerBar} ${styles.minimal}`}>
-        <audio
-          ref={audioRef}
-          src={currentTrack.url}
-          loop={playerState.isLooping}
-          preload="metadata"
-        />
-        
+      <div className={barClassName}>
         <div className={styles.minimalContainer}>
+          {resumeOffer && <ResumePrompt offer={resumeOffer} />}
+
           {/* Single Row: Play + Progress + Volume */}
           <div className={styles.minimalControlsRow}>
             <button
-              onClick={togglePlayPause}
-              className={`${styles.minimalPlayBtn} ${playerState.isPlaying ? styles.playing : ''}`}
-              aria-label={playerState.isPlaying ? 'Pause' : 'Play'}
-              title={playerState.isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+              onClick={player.toggle}
+              className={`${styles.minimalPlayBtn} ${state.isPlaying ? styles.playing : ''}`}
+              aria-label={state.isPlaying ? 'Pause' : 'Play'}
+              title={state.isPlaying ? 'Pause (Space)' : 'Play (Space)'}
             >
               <div className={styles.playBtnIcon}>
-                {playerState.isPlaying ? (
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-                    <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
-                  </svg>
-                ) : (
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-                    <path d="M8 5v14l11-7z"/>
-                  </svg>
-                )}
+                <PlayPauseIcon isPlaying={state.isPlaying} />
               </div>
             </button>
 
             {/* Inline Progress Section */}
-            <div className={styles.inlineProgressSection}>
-              <span className={styles.inlineTimeText}>
-                {formatTime(playerState.currentTime)}
-              </span>
-              
-              <div 
-                ref={progressRef}
-                className={`${styles.inlineProgressBar} ${isDragging ? styles.dragging : ''}`}
-                onMouseDown={handleProgressMouseDown}
-              >
-                <div 
-                  className={styles.progressTrack}
-                  style={{
-                    width: `${(playerState.currentTime / playerState.duration) * 100 || 0}%`
-                  }}
-                />
-                <div 
-                  className={styles.progressThumb}
-                  style={{
-                    left: `${(playerState.currentTime / playerState.duration) * 100 || 0}%`
-                  }}
-                />
-              </div>
+            <ProgressSection
+              player={player}
+              sectionClassName={styles.inlineProgressSection}
+              barClassName={styles.inlineProgressBar}
+              timeClassName={styles.inlineTimeText}
+              waveformClassName={styles.inlineWaveformBar}
+              peaks={peaks}
+              markers={markers}
+            />
 
-              <span className={styles.inlineTimeText}>
-                {formatTime(playerState.duration)}
-              </span>
-            </div>
+            {shareLink && (
+              <CopyLinkButton
+                player={player}
+                link={shareLink}
+                buttonClassName={styles.minimalVolumeBtn}
+                iconSize={14}
+              />
+            )}
 
             {/* Volume Section */}
-            <div className={styles.minimalVolumeSection} ref={volumeRef}>
-              <button
-                onClick={toggleVolumeSlider}
-                className={styles.minimalVolumeBtn}
-                aria-label={`Volume ${Math.round(playerState.volume * 100)}%`}
-                title="Volume (M to mute)"
-              >
-                {playerState.isMuted || playerState.volume === 0 ? (
-                  <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
-                    <path d="M16.5 12c0-1.77-1.02-3.29-2.5-4.03v2.21l2.45 2.45c.03-.2.05-.41.05-.63zm2.5 0c0 .94-.2 1.82-.54 2.64l1.51 1.51C20.63 14.91 21 13.5 21 12c0-4.28-2.99-7.86-7-8.77v2.06c2.89.86 5 3.54 5 6.71zM4.27 3L3 4.27 7.73 9H3v6h4l5 5v-6.73l4.25 4.25c-.67.52-1.42.93-2.25 1.18v2.06c1.38-.31 2.63-.95 3.69-1.81L19.73 21 21 19.73l-9-9L4.27 3zM12 4L9.91 6.09 12 8.18V4z"/>
-                  </svg>
-                ) : playerState.volume < 0.5 ? (
-                  <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
-                    <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02z"/>
-                  </svg>
-                ) : (
-                  <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
-                    <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02zM14 3.23v2.06c2.89.86 5 3.54 5 6.71s-2.11 5.85-5 6.71v2.06c4.01-.91 7-4.49 7-8.77s-2.99-7.86-7-8.77z"/>
-                  </svg>
-                )}
-              </button>
-
-              {/* Volume Slider */}
-              {playerState.showVolumeSlider && (
-                <div className={styles.volumeSlider}>
-                  <div 
-                    className={styles.volumeBar}
-                    onMouseDown={handleVolumeMouseDown}
-                  >
-                    <div 
-                      className={styles.volumeFill}
-                      style={{ width: `${playerState.isMuted ? 0 : playerState.volume * 100}%` }}
-                    />
-                    <div 
-                      className={styles.volumeThumb}
-                      style={{ left: `${playerState.isMuted ? 0 : playerState.volume * 100}%` }}
-                    />
-                  </div>
-                </div>
-              )}
-            </div>
+            <VolumeControl
+              player={player}
+              sectionClassName={styles.minimalVolumeSection}
+              buttonClassName={styles.minimalVolumeBtn}
+              iconSize={14}
+            />
           </div>
         </div>
       </div>
@@ -449,24 +525,19 @@ const PlayerBar: React.FC<PlayerBarProps> = ({ tracks, onTrackChange, variant =
 
   // Full player version
   return (
-    <div className={styles.playerBar}>
-      <audio
-        ref={audioRef}
-        src={currentTrack.url}
-        loop={playerState.isLooping}
-        preload="metadata"
-      />
-      
+    <div className={barClassName}>
       <div className={styles.playerContainer}>
+        {resumeOffer && <ResumePrompt offer={resumeOffer} />}
+
         {/* Track Info Section */}
         <div className={styles.trackSection}>
           <div className={styles.albumCoverContainer}>
-            <img 
-              src={currentTrack.cover} 
+            <img
+              src={currentTrack.cover}
               alt={currentTrack.title}
-              className={`${styles.albumCover} ${playerState.isPlaying ? styles.playing : ''}`}
+              className={`${styles.albumCover} ${state.isPlaying ? styles.playing : ''}`}
             />
-            {playerState.isPlaying && (
+            {state.isPlaying && (
               <div className={styles.playingIndicator}>
                 <div className={styles.playingWave}></div>
                 <div className={styles.playingWave}></div>
@@ -481,43 +552,24 @@ const PlayerBar: React.FC<PlayerBarProps> = ({ tracks, onTrackChange, variant =
         </div>
 
         {/* Progress Section - Compact */}
-        <div className={styles.progressSection}>
-          <span className={styles.timeText}>
-            {formatTime(playerState.currentTime)}
-          </span>
-          
-          <div 
-            ref={progressRef}
-            className={`${styles.progressBar} ${isDragging ? styles.dragging : ''}`}
-            onMouseDown={handleProgressMouseDown}
-          >
-            <div 
-              className={styles.progressTrack}
-              style={{
-                width: `${(playerState.currentTime / playerState.duration) * 100 || 0}%`
-              }}
-            />
-            <div 
-              className={styles.progressThumb}
-              style={{
-                left: `${(playerState.currentTime / playerState.duration) * 100 || 0}%`
-              }}
-            />
-          </div>
-
-          <span className={styles.timeText}>
-            {formatTime(playerState.duration)}
-          </span>
-        </div>
+        <ProgressSection
+          player={player}
+          sectionClassName={styles.progressSection}
+          barClassName={styles.progressBar}
+          timeClassName={styles.timeText}
+          waveformClassName={styles.fullWaveformBar}
+          peaks={peaks}
+          markers={markers}
+        />
 
         {/* Controls + Volume Section */}
         <div className={styles.controlsRow}>
           <div className={styles.controlsSection}>
             {/* Secondary Controls */}
             <button
-              onClick={toggleShuffle}
-              className={`${styles.secondaryBtn} ${playerState.isShuffled ? styles.active : ''}`}
-              aria-label={playerState.isShuffled ? 'Disable shuffle' : 'Enable shuffle'}
+              onClick={player.toggleShuffle}
+              className={`${styles.secondaryBtn} ${state.isShuffled ? styles.active : ''}`}
+              aria-label={state.isShuffled ? 'Disable shuffle' : 'Enable shuffle'}
               title="Shuffle (S)"
             >
               <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
@@ -527,7 +579,7 @@ const PlayerBar: React.FC<PlayerBarProps> = ({ tracks, onTrackChange, variant =
 
             {/* Main Controls */}
             <button
-              onClick={skipBackward}
+              onClick={player.prev}
               className={styles.controlBtn}
               aria-label="Previous track or restart"
               title="Previous (←)"
@@ -536,28 +588,20 @@ const PlayerBar: React.FC<PlayerBarProps> = ({ tracks, onTrackChange, variant =
                 <path d="M6 6h2v12H6zm3.5 6l8.5 6V6z"/>
               </svg>
             </button>
-            
+
             <button
-              onClick={togglePlayPause}
-              className={`${styles.playBtn} ${playerState.isPlaying ? styles.playing : ''}`}
-              aria-label={playerState.isPlaying ? 'Pause' : 'Play'}
-              title={playerState.isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+              onClick={player.toggle}
+              className={`${styles.playBtn} ${state.isPlaying ? styles.playing : ''}`}
+              aria-label={state.isPlaying ? 'Pause' : 'Play'}
+              title={state.isPlaying ? 'Pause (Space)' : 'Play (Space)'}
             >
               <div className={styles.playBtnIcon}>
-                {playerState.isPlaying ? (
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-                    <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
-                  </svg>
-                ) : (
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-                    <path d="M8 5v14l11-7z"/>
-                  </svg>
-                )}
+                <PlayPauseIcon isPlaying={state.isPlaying} />
               </div>
             </button>
-            
+
             <button
-              onClick={skipForward}
+              onClick={player.next}
               className={styles.controlBtn}
               aria-label="Next track"
               title="Next (→)"
@@ -568,63 +612,129 @@ const PlayerBar: React.FC<PlayerBarProps> = ({ tracks, onTrackChange, variant =
             </button>
 
             <button
-              onClick={toggleLoop}
-              className={`${styles.secondaryBtn} ${playerState.isLooping ? styles.active : ''}`}
-              aria-label={playerState.isLooping ? 'Disable loop' : 'Enable loop'}
-              title="Loop (L)"
+              onClick={player.cycleRepeatMode}
+              className={`${styles.secondaryBtn} ${state.repeatMode !== 'off' ? styles.active : ''}`}
+              aria-label={REPEAT_LABELS[state.repeatMode]}
+              title="Repeat (L)"
             >
               <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
                 <path d="M7 7h10v3l4-4-4-4v3H5v6h2V7zm10 10H7v-3l-4 4 4 4v-3h12v-6h-2v4z"/>
               </svg>
-            </button>
-          </div>
-
-          {/* Volume Section */}
-          <div className={styles.volumeSection} ref={volumeRef}>
-            <button
-              onClick={toggleVolumeSlider}
-              className={styles.volumeBtn}
-              aria-label={`Volume ${Math.round(playerState.volume * 100)}%`}
-              title="Volume (M to mute)"
-            >
-              {playerState.isMuted || playerState.volume === 0 ? (
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
-                  <path d="M16.5 12c0-1.77-1.02-3.29-2.5-4.03v2.21l2.45 2.45c.03-.2.05-.41.05-.63zm2.5 0c0 .94-.2 1.82-.54 2.64l1.51 1.51C20.63 14.91 21 13.5 21 12c0-4.28-2.99-7.86-7-8.77v2.06c2.89.86 5 3.54 5 6.71zM4.27 3L3 4.27 7.73 9H3v6h4l5 5v-6.73l4.25 4.25c-.67.52-1.42.93-2.25 1.18v2.06c1.38-.31 2.63-.95 3.69-1.81L19.73 21 21 19.73l-9-9L4.27 3zM12 4L9.91 6.09 12 8.18V4z"/>
-                </svg>
-              ) : playerState.volume < 0.5 ? (
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
-                  <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02z"/>
-                </svg>
-              ) : (
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
-                  <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02zM14 3.23v2.06c2.89.86 5 3.54 5 6.71s-2.11 5.85-5 6.71v2.06c4.01-.91 7-4.49 7-8.77s-2.99-7.86-7-8.77z"/>
-                </svg>
+              {state.repeatMode === 'one' && (
+                <span className={styles.repeatOneBadge}>1</span>
               )}
             </button>
 
-            {/* Volume Slider */}
-            {playerState.showVolumeSlider && (
-              <div className={styles.volumeSlider}>
-                <div 
-                  className={styles.volumeBar}
-                  onMouseDown={handleVolumeMouseDown}
-                >
-                  <div 
-                    className={styles.volumeFill}
-                    style={{ width: `${playerState.isMuted ? 0 : playerState.volume * 100}%` }}
-                  />
-                  <div 
-                    className={styles.volumeThumb}
-                    style={{ left: `${playerState.isMuted ? 0 : playerState.volume * 100}%` }}
-                  />
-                </div>
-              </div>
+            {shareLink && (
+              <CopyLinkButton
+                player={player}
+                link={shareLink}
+                buttonClassName={styles.secondaryBtn}
+                iconSize={14}
+              />
+            )}
+
+            {shareClient && currentTrack.id && (
+              <button
+                onClick={() => setIsShareOpen(true)}
+                className={styles.secondaryBtn}
+                aria-label="Share"
+                aria-haspopup="dialog"
+                title="Create a share link"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M18 16.08c-.76 0-1.44.3-1.96.77L8.91 12.7c.05-.23.09-.46.09-.7s-.04-.47-.09-.7l7.05-4.11c.54.5 1.25.81 2.04.81 1.66 0 3-1.34 3-3s-1.34-3-3-3-3 1.34-3 3c0 .24.04.47.09.7L8.04 9.81C7.5 9.31 6.79 9 6 9c-1.66 0-3 1.34-3 3s1.34 3 3 3c.79 0 1.5-.31 2.04-.81l7.12 4.16c-.05.21-.08.43-.08.65 0 1.61 1.31 2.92 2.92 2.92s2.92-1.31 2.92-2.92-1.31-2.92-2.92-2.92z"/>
+                </svg>
+              </button>
             )}
           </div>
+
+          {/* Volume Section */}
+          <VolumeControl
+            player={player}
+            sectionClassName={styles.volumeSection}
+            buttonClassName={styles.volumeBtn}
+            iconSize={16}
+          />
         </div>
       </div>
+
+      {isShareOpen && shareClient && currentTrack.id && (
+        <ShareDialog
+          track={{ ...currentTrack, id: currentTrack.id }}
+          client={shareClient}
+          startTime={engine.getState().currentTime}
+          onClose={closeShare}
+        />
+      )}
     </div>
   );
 };
 
-export default PlayerBar;
\ No newline at end of file
+// Owns an engine for callers that just hand over a track list
+const StandalonePlayerBar: React.FC<PlayerBarProps & { variant: PlayerBarVariant }> = ({
+  tracks = [],
+  variant,
+  onTrackChange,
+  onBeforePlay,
+  onPlayCounted,
+  playCountThreshold,
+  onProgress,
+  resolveSource,
+  gapless,
+  crossfade,
+  waveform = false,
+  markers,
+  theme,
+  embedded,
+  resumeOffer,
+  shareLink,
+  shareClient,
+}) => {
+  const player = usePlayer(tracks, {
+    onTrackChange,
+    onBeforePlay,
+    onPlayCounted,
+    playCountThreshold,
+    onProgress,
+    resolveSource,
+    gapless,
+    crossfade,
+  });
+
+  return (
+    <PlayerBarView
+      player={player}
+      variant={variant}
+      waveform={waveform}
+      markers={markers}
+      theme={theme}
+      embedded={embedded}
+      resumeOffer={resumeOffer}
+      shareLink={shareLink}
+      shareClient={shareClient}
+    />
+  );
+};
+
+const PlayerBar: React.FC<PlayerBarProps> = ({ player, variant = 'full', ...props }) => {
+  if (player) {
+    return (
+      <PlayerBarView
+        player={player}
+        variant={variant}
+        waveform={!!props.waveform}
+        markers={props.markers}
+        theme={props.theme}
+        embedded={props.embedded}
+        resumeOffer={props.resumeOffer}
+        shareLink={props.shareLink}
+        shareClient={props.shareClient}
+      />
+    );
+  }
+
+  return <StandalonePlayerBar {...props} variant={variant} />;
+};
+
+export default PlayerBar;
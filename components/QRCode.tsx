@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { encodeQRCode } from '@/utils/qrcode';
+
+interface QRCodeProps {
+  value: string;
+  size?: number; // Rendered width and height in pixels
+  label?: string;
+}
+
+// Scanners need a light border of at least four modules
+const QUIET_ZONE = 4;
+
+export function QRCode({ value, size = 160, label }: QRCodeProps) {
+  // One path for all dark modules keeps the DOM small for long links
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQRCode(value);
+    const parts: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) parts.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return { path: parts.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      role="img"
+      aria-label={label || `QR code for ${value}`}
+      shapeRendering="crispEdges"
+      style={{ display: 'block', borderRadius: '8px' }}
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
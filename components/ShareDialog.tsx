@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CreateShareRequest, ShareLink, Track } from '@/types';
+import type ChestAPIClient from '@/lib/api-client';
+import { describeApiError, getApiErrorCode } from '@/lib/api-errors';
+import { embedSnippet, embedUrl, linkAtTime, shareUrl } from '@/lib/urls';
+import { copyToClipboard } from '@/utils/clipboard';
+import { formatTime, parseTimeParam } from '@/utils/time';
+import { QRCode } from '@/components/QRCode';
+
+interface ShareDialogProps {
+  track: Track & { id: string };
+  client: ChestAPIClient; // Signed in as the track's owner
+  startTime: number; // Suggested start, usually the current position
+  onClose: () => void;
+}
+
+type CopiedField = 'link' | 'embed';
+
+const COPIED_FEEDBACK_MS = 2000;
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '6px',
+  fontSize: '13px',
+  opacity: 0.85
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '8px 10px',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: 'white',
+  fontSize: '14px',
+  fontFamily: 'inherit'
+};
+
+const checkboxLabelStyle: React.CSSProperties = {
+  display: 'flex',
+  gap: '8px',
+  alignItems: 'center',
+  fontSize: '13px',
+  opacity: 0.85
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 16px',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '16px',
+  background: 'none',
+  color: 'white',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+  ...buttonStyle,
+  border: 'none',
+  background: 'white',
+  color: 'black',
+  fontWeight: 600
+};
+
+// Empty means unlimited; anything else has to be a whole number of plays
+function parseLimit(value: string): number | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const limit = Number(trimmed);
+  return Number.isInteger(limit) && limit > 0 ? limit : undefined;
+}
+
+// Date inputs give YYYY-MM-DD; the link stays valid through that whole (UTC) day
+function expiryFromDate(date: string): string | undefined {
+  return date ? `${date}T23:59:59Z` : undefined;
+}
+
+function todayInputValue(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function ShareDialog({ track, client, startTime, onClose }: ShareDialogProps) {
+  const [limitInput, setLimitInput] = useState('');
+  const [perListener, setPerListener] = useState(false);
+  const [expiryDate, setExpiryDate] = useState('');
+  const [password, setPassword] = useState('');
+  const [allowDownload, setAllowDownload] = useState(false);
+  const [startInput, setStartInput] = useState(startTime >= 1 ? formatTime(startTime) : '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [share, setShare] = useState<ShareLink | null>(null);
+  const [copied, setCopied] = useState<CopiedField | null>(null);
+
+  const playLimit = parseLimit(limitInput);
+  const start = startInput.trim() ? parseTimeParam(startInput) : null;
+  const startInvalid = !!startInput.trim() && start === null;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(null), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (playLimit === undefined || startInvalid) return;
+
+    const request: CreateShareRequest = {
+      track_id: track.id,
+      play_limit: playLimit,
+      allow_download: allowDownload,
+    };
+    if (playLimit !== null && perListener) request.limit_mode = 'listener';
+    if (expiryDate) request.expires_at = expiryFromDate(expiryDate);
+    if (password) request.password = password;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      setShare(await client.createShare(request));
+    } catch (err) {
+      console.error('Failed to create share:', err);
+      setError(describeApiError(getApiErrorCode(err)).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // The start time only lives in the link, so the same token works from any point
+  const withStart = (url: string) => (start ? linkAtTime(url, start) : url);
+  const link = share ? withStart(shareUrl(share.token)) : '';
+  const snippet = share ? embedSnippet(withStart(embedUrl(share.token)), track.title) : '';
+
+  // Keep typing and tabbing around the dialog from reaching the player's shortcuts
+  const handleDialogKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') onClose();
+  };
+
+  const handleCopy = async (field: CopiedField, text: string) => {
+    if (await copyToClipboard(text)) setCopied(field);
+  };
+
+  // Portalled out of the player bar, whose transform would otherwise trap the fixed overlay
+  return createPortal(
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1100,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px',
+        background: 'rgba(0, 0, 0, 0.6)',
+        backdropFilter: 'blur(4px)'
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleDialogKeyDown}
+        style={{
+          width: '100%',
+          maxWidth: '420px',
+          maxHeight: '100%',
+          overflowY: 'auto',
+          boxSizing: 'border-box',
+          background: 'rgba(30, 30, 30, 0.95)',
+          borderRadius: '16px',
+          padding: '24px',
+          border: '1px solid rgba(255, 255, 255, 0.08)',
+          color: 'white'
+        }}
+      >
+        <h2 id="share-dialog-title" style={{ margin: '0 0 4px 0', fontSize: '18px', fontWeight: 600 }}>
+          Share &ldquo;{track.title}&rdquo;
+        </h2>
+        <p style={{ margin: '0 0 20px 0', fontSize: '13px', opacity: 0.6 }}>
+          {share ? 'Your link is ready.' : 'Choose who can listen, and for how long.'}
+        </p>
+
+        {share ? (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <input readOnly value={link} aria-label="Share link" onFocus={(e) => e.target.select()} style={inputStyle} />
+              <button onClick={() => handleCopy('link', link)} style={{ ...buttonStyle, flexShrink: 0 }}>
+                {copied === 'link' ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+
+            <div style={{ alignSelf: 'center' }}>
+              <QRCode value={link} size={180} label={`QR code for the link to ${track.title}`} />
+            </div>
+
+            <label style={labelStyle}>
+              Embed code
+              <textarea
+                readOnly
+                value={snippet}
+                rows={3}
+                onFocus={(e) => e.target.select()}
+                style={{ ...inputStyle, resize: 'none', fontFamily: 'monospace', fontSize: '12px' }}
+              />
+            </label>
+
+            <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+              <button onClick={() => handleCopy('embed', snippet)} style={buttonStyle}>
+                {copied === 'embed' ? 'Copied' : 'Copy embed code'}
+              </button>
+              <button onClick={onClose} style={primaryButtonStyle}>
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '14px' }}>
+            <label style={labelStyle}>
+              Play limit
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={limitInput}
+                onChange={(e) => setLimitInput(e.target.value)}
+                placeholder="No limit"
+                autoFocus
+                style={inputStyle}
+              />
+            </label>
+            {playLimit !== null && playLimit !== undefined && (
+              <label style={checkboxLabelStyle}>
+                <input type="checkbox" checked={perListener} onChange={(e) => setPerListener(e.target.checked)} />
+                Apply the limit to each listener
+              </label>
+            )}
+
+            <label style={labelStyle}>
+              Expires after
+              <input
+                type="date"
+                min={todayInputValue()}
+                value={expiryDate}
+                onChange={(e) => setExpiryDate(e.target.value)}
+                style={{ ...inputStyle, colorScheme: 'dark' }}
+              />
+            </label>
+
+            <label style={labelStyle}>
+              Password
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="None"
+                autoComplete="new-password"
+                style={inputStyle}
+              />
+            </label>
+
+            <label style={labelStyle}>
+              Start at
+              <input
+                value={startInput}
+                onChange={(e) => setStartInput(e.target.value)}
+                placeholder="Beginning"
+                aria-invalid={startInvalid}
+                style={inputStyle}
+              />
+            </label>
+
+            <label style={checkboxLabelStyle}>
+              <input type="checkbox" checked={allowDownload} onChange={(e) => setAllowDownload(e.target.checked)} />
+              Allow downloads
+            </label>
+
+            {error && (
+              <p role="alert" style={{ margin: 0, fontSize: '13px', color: '#fca5a5' }}>
+                {error}
+              </p>
+            )}
+
+            <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', marginTop: '6px' }}>
+              <button type="button" onClick={onClose} style={{ ...buttonStyle, border: 'none', opacity: 0.7 }}>
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || playLimit === undefined || startInvalid}
+                style={primaryButtonStyle}
+              >
+                {isSubmitting ? 'Creating…' : 'Create link'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+}
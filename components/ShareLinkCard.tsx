@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { ChestUser, ShareLink } from '@/types';
+import { useShareStats } from '@/hooks/useShareStats';
+import { shareUrl } from '@/lib/urls';
+import { copyToClipboard } from '@/utils/clipboard';
+import { formatDate } from '@/utils/time';
+import { DailyPlaysChart } from '@/components/DailyPlaysChart';
+import { DropoffChart } from '@/components/DropoffChart';
+
+interface ShareLinkCardProps {
+  share: ShareLink;
+  user: ChestUser;
+  isPending: boolean; // An action on this share is running
+  disabled: boolean; // An action on another share is running
+  onSetPlayLimit: (token: string, playLimit: number | null) => Promise<boolean>;
+  onRevoke: (token: string) => Promise<boolean>;
+  onRegenerate: (token: string) => Promise<boolean>;
+}
+
+const COPIED_FEEDBACK_MS = 2000;
+
+const actionStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '16px',
+  background: 'none',
+  color: 'white',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '90px',
+  boxSizing: 'border-box',
+  padding: '6px 10px',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: 'white',
+  fontSize: '13px',
+  fontFamily: 'inherit'
+};
+
+const TYPE_LABELS: Record<ShareLink['type'], string> = {
+  track: 'Track',
+  playlist: 'Playlist',
+  album: 'Album',
+};
+
+// Empty means unlimited; anything else has to be a whole number of plays
+function parseLimit(value: string): number | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const limit = Number(trimmed);
+  return Number.isInteger(limit) && limit > 0 ? limit : undefined;
+}
+
+export function ShareLinkCard({ share, user, isPending, disabled, onSetPlayLimit, onRevoke, onRegenerate }: ShareLinkCardProps) {
+  const [showStats, setShowStats] = useState(false);
+  const [isEditingLimit, setIsEditingLimit] = useState(false);
+  const [limitInput, setLimitInput] = useState('');
+  const [copied, setCopied] = useState(false);
+  const { stats, isLoading, error } = useShareStats({ token: share.token, enabled: showStats, user });
+
+  const link = shareUrl(share.token);
+  const busy = isPending || disabled;
+  const newLimit = parseLimit(limitInput);
+  const usage = share.play_limit ? Math.min(1, share.plays / share.play_limit) : 0;
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    setCopied(await copyToClipboard(link));
+  };
+
+  const startEditingLimit = () => {
+    setLimitInput(share.play_limit ? String(share.play_limit) : '');
+    setIsEditingLimit(true);
+  };
+
+  const handleLimitSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newLimit === undefined) return;
+    if (await onSetPlayLimit(share.token, newLimit)) setIsEditingLimit(false);
+  };
+
+  const handleRegenerate = () => {
+    if (window.confirm(`Replace the link for "${share.name}"? The current link will stop working.`)) {
+      onRegenerate(share.token);
+    }
+  };
+
+  const handleRevoke = () => {
+    if (window.confirm(`Revoke the link for "${share.name}"? Nobody will be able to play it anymore.`)) {
+      onRevoke(share.token);
+    }
+  };
+
+  return (
+    <li style={{
+      listStyle: 'none',
+      background: 'rgba(30, 30, 30, 0.7)',
+      borderRadius: '16px',
+      padding: '20px',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      opacity: isPending ? 0.6 : 1
+    }}>
+      <div style={{ display: 'flex', gap: '16px', alignItems: 'center' }}>
+        <div style={{
+          width: 56,
+          height: 56,
+          borderRadius: '8px',
+          flexShrink: 0,
+          background: share.cover ? `center / cover no-repeat url("${share.cover}")` : 'rgba(255, 255, 255, 0.08)'
+        }} />
+        <div style={{ minWidth: 0, flex: 1 }}>
+          <div style={{ fontSize: '16px', fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {share.name}
+          </div>
+          <div style={{ fontSize: '13px', opacity: 0.6 }}>
+            {TYPE_LABELS[share.type]} · created {formatDate(share.created_at)}
+            {share.password_protected && ' · password protected'}
+            {share.allow_download && ' · downloads allowed'}
+            {share.expires_at && ` · expires ${formatDate(share.expires_at)}`}
+          </div>
+          <div style={{ fontSize: '12px', opacity: 0.5, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {link}
+          </div>
+        </div>
+        <div style={{ textAlign: 'right', flexShrink: 0 }}>
+          <div style={{ fontSize: '20px', fontWeight: 600 }}>
+            {share.plays}
+            <span style={{ fontSize: '14px', fontWeight: 400, opacity: 0.6 }}>
+              {share.play_limit ? ` / ${share.play_limit}` : ' plays'}
+            </span>
+          </div>
+          <div style={{ fontSize: '12px', opacity: 0.6 }}>
+            {share.last_played_at ? `Last played ${formatDate(share.last_played_at)}` : 'Not played yet'}
+          </div>
+        </div>
+      </div>
+
+      {share.play_limit !== null && (
+        <div
+          role="progressbar"
+          aria-label={share.limit_mode === 'listener' ? 'Plays against the per-listener limit' : 'Plays against the limit'}
+          aria-valuemin={0}
+          aria-valuemax={share.play_limit}
+          aria-valuenow={share.plays}
+          style={{ height: '4px', borderRadius: '2px', background: 'rgba(255, 255, 255, 0.1)', margin: '14px 0 0', overflow: 'hidden' }}
+        >
+          <div style={{ width: `${usage * 100}%`, height: '100%', background: usage >= 1 ? '#f87171' : '#60a5fa' }} />
+        </div>
+      )}
+      {share.play_limit !== null && share.limit_mode === 'listener' && (
+        <div style={{ fontSize: '12px', opacity: 0.6, marginTop: '6px' }}>
+          The limit applies to each listener; plays are everyone&apos;s together.
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '16px', alignItems: 'center' }}>
+        <button onClick={handleCopy} style={actionStyle}>
+          {copied ? 'Copied' : 'Copy link'}
+        </button>
+        {isEditingLimit ? (
+          <form onSubmit={handleLimitSubmit} style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={limitInput}
+              onChange={(e) => setLimitInput(e.target.value)}
+              placeholder="No limit"
+              aria-label="Play limit"
+              autoFocus
+              style={inputStyle}
+            />
+            <button type="submit" disabled={busy || newLimit === undefined} style={actionStyle}>
+              Save
+            </button>
+            <button type="button" onClick={() => setIsEditingLimit(false)} style={{ ...actionStyle, border: 'none', opacity: 0.7 }}>
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <button onClick={startEditingLimit} disabled={busy} style={actionStyle}>
+            {share.play_limit ? 'Change limit' : 'Set limit'}
+          </button>
+        )}
+        <button onClick={() => setShowStats(!showStats)} style={actionStyle} aria-expanded={showStats}>
+          {showStats ? 'Hide stats' : 'Stats'}
+        </button>
+        <span style={{ flex: 1 }} />
+        <button onClick={handleRegenerate} disabled={busy} style={actionStyle}>
+          New link
+        </button>
+        <button onClick={handleRevoke} disabled={busy} style={{ ...actionStyle, color: '#fca5a5', borderColor: 'rgba(252, 165, 165, 0.3)' }}>
+          Revoke
+        </button>
+      </div>
+
+      {showStats && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(240px, 1fr))', gap: '24px', marginTop: '20px' }}>
+          {isLoading && <p style={{ margin: 0, fontSize: '13px', opacity: 0.6 }}>Loading stats…</p>}
+          {error && <p role="alert" style={{ margin: 0, fontSize: '13px', color: '#fca5a5' }}>{error}</p>}
+          {stats && (
+            <>
+              <DailyPlaysChart days={stats.daily_plays} />
+              <DropoffChart points={stats.dropoff} />
+            </>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
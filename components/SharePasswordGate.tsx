@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+
+interface SharePasswordGateProps {
+  token: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '12px 14px',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '10px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: 'white',
+  fontSize: '15px',
+  fontFamily: 'inherit'
+};
+
+/**
+ * Password prompt for protected shares. It knows nothing about the share but
+ * its token; once unlocked the page reloads and renders the tracks server-side.
+ */
+export function SharePasswordGate({ token }: SharePasswordGateProps) {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Unlocking failed. Please try again.');
+        setPassword('');
+        setIsSubmitting(false);
+        return;
+      }
+
+      window.location.reload();
+    } catch (err) {
+      console.error('Failed to unlock share:', err);
+      setError('We couldn\'t reach Chest Music. Check your connection and try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        background: 'rgba(30, 30, 30, 0.7)',
+        backdropFilter: 'blur(16px)',
+        borderRadius: '16px',
+        padding: '32px',
+        border: '1px solid rgba(255, 255, 255, 0.08)',
+        maxWidth: '360px',
+        width: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px',
+        textAlign: 'center'
+      }}
+    >
+      <div style={{ fontSize: '40px', opacity: 0.8 }}>🔒</div>
+      <h1 style={{ margin: 0, fontSize: '22px', fontWeight: 600, letterSpacing: '-0.01em' }}>
+        Protected link
+      </h1>
+      <p style={{ margin: '0 0 8px 0', fontSize: '15px', opacity: 0.7, lineHeight: 1.4 }}>
+        Enter the password you were given to listen.
+      </p>
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoComplete="off"
+        autoFocus
+        required
+        style={inputStyle}
+      />
+      {error && (
+        <p role="alert" style={{ margin: 0, fontSize: '13px', color: '#fca5a5' }}>{error}</p>
+      )}
+      <button
+        type="submit"
+        disabled={isSubmitting || !password}
+        style={{
+          marginTop: '4px',
+          padding: '12px 24px',
+          border: 'none',
+          borderRadius: '25px',
+          background: 'white',
+          color: 'black',
+          fontSize: '14px',
+          fontWeight: 500,
+          cursor: isSubmitting || !password ? 'default' : 'pointer',
+          opacity: isSubmitting || !password ? 0.6 : 1
+        }}
+      >
+        {isSubmitting ? 'Unlocking…' : 'Unlock'}
+      </button>
+    </form>
+  );
+}
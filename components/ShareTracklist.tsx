@@ -0,0 +1,76 @@
+import React from 'react';
+import { ChestTrack, PlayLimitState } from '@/types';
+
+interface ShareTracklistProps {
+  tracks: ChestTrack[];
+  currentIndex: number;
+  limitsByTrack: Record<string, PlayLimitState>;
+  onSelect: (index: number) => void;
+}
+
+export function ShareTracklist({ tracks, currentIndex, limitsByTrack, onSelect }: ShareTracklistProps) {
+  if (tracks.length < 2) return null;
+
+  return (
+    <ol style={{
+      listStyle: 'none',
+      margin: '24px 0 0 0',
+      padding: 0,
+      textAlign: 'left'
+    }}>
+      {tracks.map((track, index) => {
+        const limits = limitsByTrack[track.id];
+        const isCurrent = index === currentIndex;
+        const remaining = limits?.playLimit ? Math.max(0, limits.playLimit - limits.playCount) : null;
+
+        return (
+          <li key={track.id}>
+            <button
+              onClick={() => onSelect(index)}
+              disabled={limits?.isLimitReached}
+              aria-current={isCurrent ? 'true' : undefined}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+                width: '100%',
+                padding: '10px 12px',
+                border: 'none',
+                borderRadius: '10px',
+                background: isCurrent ? 'rgba(255, 255, 255, 0.1)' : 'transparent',
+                color: 'white',
+                textAlign: 'left',
+                cursor: limits?.isLimitReached ? 'not-allowed' : 'pointer',
+                opacity: limits?.isLimitReached ? 0.4 : 1
+              }}
+            >
+              <span style={{ width: '20px', fontSize: '13px', opacity: 0.6, textAlign: 'right' }}>
+                {index + 1}
+              </span>
+              <span style={{ flex: 1, minWidth: 0 }}>
+                <span style={{
+                  display: 'block',
+                  fontSize: '15px',
+                  fontWeight: isCurrent ? 600 : 500,
+                  whiteSpace: 'nowrap',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis'
+                }}>
+                  {track.name}
+                </span>
+                <span style={{ display: 'block', fontSize: '13px', opacity: 0.6 }}>
+                  {track.authors?.join(', ') || 'Unknown Artist'}
+                </span>
+              </span>
+              {remaining !== null && (
+                <span style={{ fontSize: '12px', opacity: 0.7, whiteSpace: 'nowrap' }}>
+                  {remaining} left{limits?.limitMode === 'listener' && ' for you'}
+                </span>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
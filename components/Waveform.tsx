@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { resamplePeaks } from '@/utils/waveform';
+
+interface WaveformProps {
+  peaks: number[];
+  progress: number; // Played fraction, 0..1
+  hoverProgress?: number | null; // Pointer position, 0..1
+  barWidth?: number;
+  barGap?: number;
+}
+
+const PLAYED_COLOR = '#60a5fa';
+const HOVER_COLOR = 'rgba(96, 165, 250, 0.5)';
+const IDLE_COLOR = 'rgba(255, 255, 255, 0.25)';
+
+export function Waveform({ peaks, progress, hoverProgress = null, barWidth = 2, barGap = 1 }: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Follow the rendered size so bars stay crisp on resize and HiDPI screens
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const measure = () => setSize({ width: canvas.clientWidth, height: canvas.clientHeight });
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const bars = useMemo(
+    () => resamplePeaks(peaks, Math.floor(size.width / (barWidth + barGap))),
+    [peaks, size.width, barWidth, barGap]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !size.width || !size.height) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(size.width * ratio);
+    const height = Math.round(size.height * ratio);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, size.width, size.height);
+
+    bars.forEach((peak, index) => {
+      const position = (index + 0.5) / bars.length;
+      if (position <= progress) {
+        context.fillStyle = PLAYED_COLOR;
+      } else if (hoverProgress !== null && position <= hoverProgress) {
+        context.fillStyle = HOVER_COLOR;
+      } else {
+        context.fillStyle = IDLE_COLOR;
+      }
+
+      const barHeight = Math.max(1, peak * size.height);
+      context.fillRect(index * (barWidth + barGap), (size.height - barHeight) / 2, barWidth, barHeight);
+    });
+  }, [bars, size, progress, hoverProgress, barWidth, barGap]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      aria-hidden="true"
+      style={{ display: 'block', width: '100%', height: '100%' }}
+    />
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChestUser, TrackComment } from '../types';
+import { clientFor, shareClientFor } from '../lib/auth';
+import { isCancelled } from '../lib/api-errors';
+
+interface UseCommentsProps {
+  trackId?: string;
+  token?: string;
+  enabled: boolean;
+  user?: ChestUser | null; // Signed-in commenters post under their account name
+}
+
+interface UseCommentsReturn {
+  comments: TrackComment[];
+  isLoading: boolean;
+  error: string | null;
+  postComment: (body: string, position: number, authorName?: string) => Promise<boolean>;
+}
+
+// Comments are shown in track order, so they line up with the progress markers
+// Shares go through the relay, which adds a password-protected share's access token
+function commentClient(token: string | undefined, user: ChestUser | null | undefined) {
+  return token ? shareClientFor(token) : clientFor(user);
+}
+
+function byPosition(a: TrackComment, b: TrackComment): number {
+  return a.position - b.position;
+}
+
+export function useComments({ trackId, token, enabled, user }: UseCommentsProps): UseCommentsReturn {
+  const [comments, setComments] = useState<TrackComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the current track's comments whenever it changes
+  useEffect(() => {
+    // A request cancelled by the previous run never finished loading
+    setComments([]);
+    setError(null);
+    setIsLoading(false);
+    if (!enabled || !trackId) return;
+
+    // Switching tracks cancels the previous track's request
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    commentClient(token, user).getComments({ id: trackId, token }, { signal: controller.signal })
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setComments(result.slice().sort(byPosition));
+        setIsLoading(false);
+      })
+      .catch((err) => {
+        if (isCancelled(err)) return;
+        console.error('Failed to load comments:', err);
+        setError('Comments could not be loaded');
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [trackId, token, enabled, user]);
+
+  const postComment = useCallback(async (body: string, position: number, authorName?: string): Promise<boolean> => {
+    if (!enabled || !trackId || !body.trim()) return false;
+
+    try {
+      const comment = await commentClient(token, user).postComment({
+        id: trackId,
+        token,
+        body: body.trim(),
+        position: Math.max(0, Math.floor(position)),
+        author_name: authorName?.trim() || undefined,
+      });
+      setComments((prev) => [...prev, comment].sort(byPosition));
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error('Failed to post comment:', err);
+      setError('Your comment could not be posted');
+      return false;
+    }
+  }, [trackId, token, enabled, user]);
+
+  return {
+    comments,
+    isLoading,
+    error,
+    postComment,
+  };
+}
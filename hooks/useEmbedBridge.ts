@@ -0,0 +1,121 @@
+import { useEffect, useRef } from 'react';
+import { PlayLimitMode, PlayLimitState } from '../types';
+import { UsePlayerReturn } from './usePlayer';
+
+/**
+ * postMessage API of /embed/[token]
+ *
+ * Hosts control the iframe and follow playback with window.postMessage.
+ * Commands are objects tagged `type: 'chest:command'`:
+ *
+ *   { type: 'chest:command', command: 'play' }
+ *   { type: 'chest:command', command: 'pause' }
+ *   { type: 'chest:command', command: 'seek', value: 42 }        // seconds
+ *   { type: 'chest:command', command: 'setVolume', value: 0.5 }  // 0..1
+ *
+ * The player answers with objects tagged `type: 'chest:event'`:
+ *
+ *   { type: 'chest:event', event: 'ready', trackId, duration }
+ *   { type: 'chest:event', event: 'play' | 'pause', trackId, currentTime }
+ *   { type: 'chest:event', event: 'timeupdate', trackId, currentTime, duration }
+ *   { type: 'chest:event', event: 'ended', trackId }
+ *   { type: 'chest:event', event: 'play-limit', trackId, playCount, playLimit, limitMode }
+ *
+ * Example host code:
+ *
+ *   const frame = document.querySelector('iframe');
+ *   frame.contentWindow.postMessage({ type: 'chest:command', command: 'seek', value: 30 }, '*');
+ *   window.addEventListener('message', (e) => {
+ *     if (e.source === frame.contentWindow && e.data?.type === 'chest:event') console.log(e.data);
+ *   });
+ *
+ * Only messages from the embedding window are accepted. Events are posted to
+ * any origin, since the embed cannot know its host; they carry nothing that
+ * isn't already visible in the player.
+ */
+
+export type EmbedCommand =
+  | { type: 'chest:command'; command: 'play' | 'pause' }
+  | { type: 'chest:command'; command: 'seek' | 'setVolume'; value: number };
+
+type EmbedEventData =
+  | { event: 'ready'; duration: number }
+  | { event: 'play' | 'pause'; currentTime: number }
+  | { event: 'timeupdate'; currentTime: number; duration: number }
+  | { event: 'ended' }
+  | { event: 'play-limit'; playCount: number; playLimit: number | null; limitMode: PlayLimitMode };
+
+export type EmbedEvent = { type: 'chest:event'; trackId?: string } & EmbedEventData;
+
+function isEmbedCommand(data: unknown): data is EmbedCommand {
+  return typeof data === 'object' && data !== null && (data as EmbedCommand).type === 'chest:command';
+}
+
+export function useEmbedBridge({ engine }: UsePlayerReturn, limitsByTrack: Record<string, PlayLimitState>): void {
+  // Read by the blocked handler, which is bound once
+  const limitsRef = useRef(limitsByTrack);
+  limitsRef.current = limitsByTrack;
+
+  useEffect(() => {
+    const host = window.parent;
+    if (host === window) return; // Opened directly, not embedded
+
+    const post = (data: EmbedEventData) => {
+      const message: EmbedEvent = { type: 'chest:event', trackId: engine.currentTrack?.id, ...data };
+      host.postMessage(message, '*');
+    };
+
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== host || !isEmbedCommand(e.data)) return;
+
+      const command = e.data;
+      switch (command.command) {
+        case 'play':
+          engine.play();
+          break;
+        case 'pause':
+          engine.pause();
+          break;
+        case 'seek':
+          if (Number.isFinite(command.value)) engine.seek(command.value);
+          break;
+        case 'setVolume':
+          if (Number.isFinite(command.value)) engine.setVolume(command.value);
+          break;
+      }
+    };
+
+    // State changes on every timeupdate; only forward actual position changes
+    let lastTime = engine.getState().currentTime;
+    const unsubscribe = engine.subscribe(() => {
+      const { currentTime, duration } = engine.getState();
+      if (currentTime === lastTime) return;
+      lastTime = currentTime;
+      post({ event: 'timeupdate', currentTime, duration });
+    });
+
+    const unsubscribers = [
+      unsubscribe,
+      engine.on('play', ({ position }) => post({ event: 'play', currentTime: position })),
+      engine.on('pause', ({ position }) => post({ event: 'pause', currentTime: position })),
+      engine.on('ended', () => post({ event: 'ended' })),
+      engine.on('blocked', ({ track }) => {
+        const limits = track.id ? limitsRef.current[track.id] : undefined;
+        post({
+          event: 'play-limit',
+          playCount: limits?.playCount || 0,
+          playLimit: limits?.playLimit ?? null,
+          limitMode: limits?.limitMode || 'link',
+        });
+      }),
+    ];
+
+    window.addEventListener('message', handleMessage);
+    post({ event: 'ready', duration: engine.getState().duration });
+
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      unsubscribers.forEach((off) => off());
+    };
+  }, [engine]);
+}
@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { ChestUser } from '../types';
+import { AnalyticsTransport, ListeningAnalytics, defaultTransport } from '../lib/analytics';
+import { clientFor } from '../lib/auth';
+import { getDeviceId } from '../lib/device-id';
+import { UsePlayerReturn } from './usePlayer';
+
+interface UseListeningAnalyticsOptions {
+  token?: string; // Nothing is reported without a share token
+  user?: ChestUser | null;
+  transport?: AnalyticsTransport; // Defaults to the Chest API (see lib/analytics)
+}
+
+/**
+ * Report how a share is listened to. Signed-in listeners report as themselves,
+ * everyone else under their anonymous device id.
+ */
+export function useListeningAnalytics({ engine }: UsePlayerReturn, { token, user, transport }: UseListeningAnalyticsOptions): void {
+  useEffect(() => {
+    if (!token) return;
+
+    const analytics = new ListeningAnalytics({
+      token,
+      deviceId: user ? undefined : getDeviceId(),
+      transport: transport || defaultTransport(clientFor(user)),
+    });
+    return analytics.attach(engine);
+  }, [engine, token, user, transport]);
+}
@@ -0,0 +1,84 @@
+import { useEffect } from 'react';
+import { UsePlayerReturn } from './usePlayer';
+
+// Default skip for headset/lock screen seek buttons that don't send an offset
+const SEEK_OFFSET_SECONDS = 10;
+
+function hasMediaSession(): boolean {
+  return typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+}
+
+/**
+ * Publish the player to the OS media controls (lock screen, notification
+ * shade, headphone and keyboard media keys) through the Media Session API.
+ */
+export function useMediaSession({ engine, state, currentTrack }: UsePlayerReturn): void {
+  const { isPlaying, currentTime, duration } = state;
+
+  useEffect(() => {
+    if (!hasMediaSession() || !currentTrack) return;
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentTrack.title,
+      artist: currentTrack.artist,
+      // One cover of unknown size; listing sizes it doesn't have would mislead the OS
+      artwork: currentTrack.cover ? [{ src: currentTrack.cover }] : [],
+    });
+  }, [currentTrack]);
+
+  useEffect(() => {
+    if (!hasMediaSession()) return;
+    navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+  }, [isPlaying]);
+
+  useEffect(() => {
+    if (!hasMediaSession()) return;
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => engine.play()],
+      ['pause', () => engine.pause()],
+      ['previoustrack', () => engine.prev()],
+      ['nexttrack', () => engine.next()],
+      ['seekto', ({ seekTime }) => {
+        if (seekTime !== undefined) engine.seek(seekTime);
+      }],
+      ['seekbackward', ({ seekOffset }) => {
+        engine.seek(engine.getState().currentTime - (seekOffset || SEEK_OFFSET_SECONDS));
+      }],
+      ['seekforward', ({ seekOffset }) => {
+        engine.seek(engine.getState().currentTime + (seekOffset || SEEK_OFFSET_SECONDS));
+      }],
+    ];
+
+    const setHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch (error) {
+        // Browsers throw for actions they don't support; the rest still work
+      }
+    };
+
+    handlers.forEach(([action, handler]) => setHandler(action, handler));
+
+    return () => {
+      handlers.forEach(([action]) => setHandler(action, null));
+      navigator.mediaSession.metadata = null;
+    };
+  }, [engine]);
+
+  // Lets the OS draw a scrubber and extrapolate position between updates
+  useEffect(() => {
+    if (!hasMediaSession() || !navigator.mediaSession.setPositionState) return;
+    if (!duration || !Number.isFinite(duration)) return;
+
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        position: Math.min(Math.max(0, currentTime), duration),
+        playbackRate: 1,
+      });
+    } catch (error) {
+      console.error('Failed to update media session position:', error);
+    }
+  }, [currentTime, duration]);
+}
@@ -1,93 +1,401 @@
-import { useState, useEffect, useCallback } from 'react';
-import { ChestTrack, PlayLimitState } from '../types';
-import { apiClient } from '../lib/api-client';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChestTrack, ChestUser, PlayLimitState, PlaySession, PlaybackProgress } from '../types';
+import { clientFor, isOwner, shareClientFor } from '../lib/auth';
+import { getDeviceId } from '../lib/device-id';
+import { countOfflinePlays, flushOfflinePlays, queueOfflinePlay } from '../lib/offline-plays';
+import {
+  ApiError,
+  ApiErrorCode,
+  ExpiredError,
+  getApiErrorCode,
+  LimitReachedError,
+  NetworkError,
+  NotFoundError,
+  UnauthorizedError,
+} from '../lib/api-errors';
 
 interface UsePlayLimitsProps {
-  track: ChestTrack | null;
+  tracks: ChestTrack[];
+  currentTrackId?: string;
   isSharedLink: boolean;
+  user?: ChestUser | null; // Plays are attributed to a signed-in listener
+  token?: string; // The share being played; its play sessions go through the share relay
+  canPlayOffline?: (trackId: string) => Promise<boolean>; // A cached copy can play while the API is unreachable
 }
 
-interface UsePlayLimitsReturn extends PlayLimitState {
+// Every track of a shared collection keeps its own counters; the spread state is the current track's
+export interface UsePlayLimitsReturn extends PlayLimitState {
   canPlay: boolean;
-  decrementPlayCount: () => Promise<void>;
-  checkPlayLimit: () => boolean;
+  limitsByTrack: Record<string, PlayLimitState>;
+  sessionError: ApiErrorCode | null; // Why the last play was refused, when it wasn't the limit
+  decrementPlayCount: (trackId?: string) => Promise<void>;
+  checkPlayLimit: (trackId?: string) => boolean;
+  startPlaySession: (trackId?: string) => Promise<boolean>;
+  reportProgress: (progress: PlaybackProgress) => void;
+  getPlaySessionId: (trackId?: string) => string | undefined;
+  getPlaySession: (trackId: string) => PlaySession | undefined;
+  getRefusal: (trackId: string) => ApiErrorCode | undefined; // Why startPlaySession last refused the track
+  resumePlaySession: (trackId: string, session: PlaySession) => void;
+  raiseLimit: (trackId: string, playLimit: number | null, plays?: number) => void;
 }
 
-export function usePlayLimits({ track, isSharedLink }: UsePlayLimitsProps): UsePlayLimitsReturn {
-  const [playCount, setPlayCount] = useState(0);
-  const [playLimit, setPlayLimit] = useState<number | null>(null);
-  const [isLimitReached, setIsLimitReached] = useState(false);
-  const [hasDecremented, setHasDecremented] = useState(false);
+// The link itself is no longer playable; retrying won't help
+function isLinkError(error: unknown): error is ApiError {
+  return error instanceof ExpiredError || error instanceof NotFoundError || error instanceof UnauthorizedError;
+}
+
+// A gapless player opens the next track's session while the current one is still reporting
+interface ActiveSession {
+  session: PlaySession;
+  lastHeartbeat: number;
+  heartbeatInFlight: boolean;
+}
+
+const UNLIMITED: PlayLimitState = {
+  playCount: 0,
+  playLimit: null,
+  limitMode: 'link',
+  isLimitReached: false,
+  hasDecremented: false,
+};
+
+function initialLimits(tracks: ChestTrack[], user?: ChestUser | null): Record<string, PlayLimitState> {
+  const limits: Record<string, PlayLimitState> = {};
+  tracks.forEach((track) => {
+    const limitMode = track.limit_mode || 'link';
+    // Per-listener limits count only this listener's plays; a new listener hasn't used any.
+    // Plays made offline aren't in the server's numbers until they are sent.
+    const playCount = ((limitMode === 'listener' ? track.listener_plays : track.plays) || 0)
+      + countOfflinePlays(track.id, track.token);
+    // Owners listen to their own shares without limits
+    const playLimit = isOwner(track, user) ? null : track.play_limit || null;
+    limits[track.id] = {
+      playCount,
+      playLimit,
+      limitMode,
+      isLimitReached: !!playLimit && playCount >= playLimit,
+      hasDecremented: false,
+    };
+  });
+  return limits;
+}
+
+export function usePlayLimits({ tracks, currentTrackId, isSharedLink, user, token, canPlayOffline }: UsePlayLimitsProps): UsePlayLimitsReturn {
+  const [limitsByTrack, setLimitsByTrack] = useState<Record<string, PlayLimitState>>({});
+  const [sessionError, setSessionError] = useState<ApiErrorCode | null>(null);
+
+  // Open play sessions by track id, with their heartbeat bookkeeping
+  const sessionsRef = useRef<Record<string, ActiveSession>>({});
+  // Tracks playing offline; like a session, resuming them doesn't count another play
+  const offlinePlaysRef = useRef<Record<string, boolean>>({});
+  // Why each track's last play was refused; read right after the refusal, before state catches up
+  const refusalsRef = useRef<Record<string, ApiErrorCode>>({});
 
-  // Initialize play limits when track changes
+  const trackKey = tracks.map((track) => `${track.id}:${track.token}`).join(',');
+  const userId = user?.id;
+  const client = clientFor(user);
+
+  // Initialize play limits when the shared tracks or the listener change
   useEffect(() => {
-    if (!track || !isSharedLink) {
-      setPlayCount(0);
-      setPlayLimit(null);
-      setIsLimitReached(false);
-      setHasDecremented(false);
-      return;
-    }
+    sessionsRef.current = {};
+    offlinePlaysRef.current = {};
+    refusalsRef.current = {};
+    setSessionError(null);
+    setLimitsByTrack(isSharedLink ? initialLimits(tracks, user) : {});
+  }, [trackKey, isSharedLink, userId]);
 
-    // Set initial values from track
-    setPlayCount(track.plays || 0);
-    setPlayLimit(track.play_limit || null);
-    setHasDecremented(false);
+  const findTrack = useCallback((trackId?: string): ChestTrack | undefined => {
+    return tracks.find((track) => track.id === (trackId ?? currentTrackId));
+  }, [tracks, currentTrackId]);
 
-    // Check if limit is already reached
-    if (track.play_limit && (track.plays || 0) >= track.play_limit) {
-      setIsLimitReached(true);
-    }
-  }, [track?.id, track?.token, isSharedLink]);
+  const updateLimits = useCallback((trackId: string, update: Partial<PlayLimitState>) => {
+    setLimitsByTrack((prev) => ({
+      ...prev,
+      [trackId]: { ...(prev[trackId] || UNLIMITED), ...update },
+    }));
+  }, []);
+
+  // Adopt the server's view of a track's counters
+  const reconcile = useCallback((trackId: string, plays: number, limit: number | null | undefined, limitReached: boolean) => {
+    const owned = isOwner(tracks.find((track) => track.id === trackId), user);
+    updateLimits(trackId, {
+      playCount: plays,
+      playLimit: owned ? null : limit || null,
+      isLimitReached: !owned && limitReached,
+    });
+  }, [tracks, user, updateLimits]);
+
+  // The server refused a play over the limit; take its counters when it sent them
+  const markLimitReached = useCallback((trackId: string, error: LimitReachedError) => {
+    updateLimits(trackId, {
+      isLimitReached: true,
+      ...(error.plays !== undefined && { playCount: error.plays }),
+      ...(error.playLimit !== undefined && { playLimit: error.playLimit }),
+    });
+  }, [updateLimits]);
+
+  // Take a play count from the server, on top of the plays still queued offline
+  const adoptPlayCount = useCallback((trackId: string, plays: number, token?: string) => {
+    setLimitsByTrack((prev) => {
+      const current = prev[trackId];
+      if (!current) return prev;
+      const playCount = plays + countOfflinePlays(trackId, token);
+      return {
+        ...prev,
+        [trackId]: { ...current, playCount, isLimitReached: !!current.playLimit && playCount >= current.playLimit },
+      };
+    });
+  }, []);
 
-  const canPlay = !isSharedLink || !isLimitReached;
+  // Plays made offline are sent once the API is reachable again
+  useEffect(() => {
+    if (!isSharedLink) return;
+
+    const isShown = (trackId: string, token?: string) =>
+      tracks.some((track) => track.id === trackId && track.token === token);
+    const flush = () => {
+      flushOfflinePlays(client, {
+        onCounted: (play, result) => {
+          if (result.plays !== undefined && isShown(play.id, play.token)) adoptPlayCount(play.id, result.plays, play.token);
+        },
+        onRefused: (play, error) => {
+          if (isShown(play.id, play.token)) markLimitReached(play.id, error);
+        },
+      });
+    };
+
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, [isSharedLink, tracks, client, adoptPlayCount, markLimitReached]);
+
+  // No session to count it: the play is queued and counted here, at its start
+  const recordOfflinePlay = useCallback((track: ChestTrack) => {
+    queueOfflinePlay({
+      id: track.id,
+      anonymous: !user,
+      token: track.token,
+      device_id: user ? undefined : getDeviceId(),
+    });
+    offlinePlaysRef.current[track.id] = true;
+
+    setLimitsByTrack((prev) => {
+      const current = prev[track.id] || UNLIMITED;
+      const playCount = current.playCount + 1;
+      return {
+        ...prev,
+        [track.id]: {
+          ...current,
+          playCount,
+          hasDecremented: true,
+          isLimitReached: !!current.playLimit && playCount >= current.playLimit,
+        },
+      };
+    });
+  }, [user]);
+
+  const currentLimits = (currentTrackId && limitsByTrack[currentTrackId]) || UNLIMITED;
+  const canPlay = !isSharedLink || !currentLimits.isLimitReached;
+
+  const checkPlayLimit = useCallback((trackId?: string): boolean => {
+    const track = findTrack(trackId);
+    const limits = track && limitsByTrack[track.id];
+    if (!isSharedLink || !track || !limits?.playLimit) return true;
 
-  const checkPlayLimit = useCallback((): boolean => {
-    if (!isSharedLink || !playLimit) return true;
-    
-    if (playCount >= playLimit) {
-      setIsLimitReached(true);
+    if (limits.playCount >= limits.playLimit) {
+      updateLimits(track.id, { isLimitReached: true });
       return false;
     }
-    
+
     return true;
-  }, [isSharedLink, playLimit, playCount]);
+  }, [isSharedLink, findTrack, limitsByTrack, updateLimits]);
 
-  const decrementPlayCount = useCallback(async (): Promise<void> => {
-    if (!track || !isSharedLink || isLimitReached || hasDecremented) {
+  const decrementPlayCount = useCallback(async (trackId?: string): Promise<void> => {
+    const track = findTrack(trackId);
+    const limits = track && limitsByTrack[track.id];
+    if (!track || !isSharedLink || limits?.isLimitReached) {
       return;
     }
 
     try {
-      const result = await apiClient.updateTrackPlay({
+      const result = await client.updateTrackPlay({
         id: track.id,
-        anonymous: true,
+        anonymous: !user,
         token: track.token,
+        device_id: user ? undefined : getDeviceId(),
       });
 
-      if (result.success) {
-        const newPlayCount = playCount + 1;
-        setPlayCount(newPlayCount);
-        setHasDecremented(true);
-
-        // Check if limit is reached after increment
-        if (playLimit && newPlayCount >= playLimit) {
-          setIsLimitReached(true);
-        }
+      if (result.success && result.plays !== undefined) {
+        const playLimit = limits?.playLimit ?? null;
+        updateLimits(track.id, { hasDecremented: true });
+        reconcile(track.id, result.plays, playLimit, !!playLimit && result.plays >= playLimit);
       }
     } catch (error) {
+      if (error instanceof LimitReachedError) {
+        markLimitReached(track.id, error);
+        return;
+      }
       console.error('Failed to update play count:', error);
       // Silently handle error - don't block playback
     }
-  }, [track, isSharedLink, isLimitReached, hasDecremented, playCount, playLimit]);
+  }, [findTrack, limitsByTrack, isSharedLink, client, user, updateLimits, reconcile, markLimitReached]);
+
+  const startPlaySession = useCallback(async (trackId?: string): Promise<boolean> => {
+    const track = findTrack(trackId);
+    if (!track || !isSharedLink) return true;
+
+    // Resuming a paused play keeps its session
+    if (sessionsRef.current[track.id] || offlinePlaysRef.current[track.id]) return true;
+
+    const refuse = (code: ApiErrorCode): boolean => {
+      refusalsRef.current[track.id] = code;
+      return false;
+    };
+    delete refusalsRef.current[track.id];
+    if (!checkPlayLimit(track.id)) return refuse('limit_reached');
+
+    try {
+      // Through the relay, which adds a password-protected share's access token
+      const session = await (token ? shareClientFor(token) : client).startPlaySession({
+        id: track.id,
+        anonymous: !user,
+        token: track.token,
+        device_id: user ? undefined : getDeviceId(),
+      });
+
+      reconcile(track.id, session.plays, session.play_limit, session.limit_reached);
+      if (session.limit_reached) return refuse('limit_reached');
+
+      sessionsRef.current[track.id] = { session, lastHeartbeat: 0, heartbeatInFlight: false };
+      updateLimits(track.id, { hasDecremented: false });
+      setSessionError(null);
+      return true;
+    } catch (error) {
+      if (error instanceof LimitReachedError) {
+        markLimitReached(track.id, error);
+        return refuse('limit_reached');
+      }
+      if (isLinkError(error)) {
+        setSessionError(error.code);
+        return refuse(error.code);
+      }
+      // Offline, only a cached copy plays, and it counts against the limit locally (lib/offline-plays)
+      if (error instanceof NetworkError && canPlayOffline && await canPlayOffline(track.id)) {
+        recordOfflinePlay(track);
+        return true;
+      }
+      // The server decides what counts as a play; without it nothing plays
+      console.error('Failed to start play session:', error);
+      const code = getApiErrorCode(error);
+      setSessionError(code);
+      return refuse(code);
+    }
+  }, [findTrack, isSharedLink, client, user, token, checkPlayLimit, reconcile, updateLimits, markLimitReached, canPlayOffline, recordOfflinePlay]);
+
+  const reportProgress = useCallback(({ trackId: reportedTrackId, position, duration, state }: PlaybackProgress) => {
+    const trackId = reportedTrackId ?? currentTrackId;
+    if (trackId && state === 'ended') {
+      delete offlinePlaysRef.current[trackId];
+    }
+    const active = trackId ? sessionsRef.current[trackId] : undefined;
+    if (!trackId || !active) return;
+    const { session } = active;
+
+    // Throttle regular heartbeats, but always report pauses and endings
+    const now = Date.now();
+    if (state === 'playing' && (
+      active.heartbeatInFlight || now - active.lastHeartbeat < session.heartbeat_interval * 1000
+    )) {
+      return;
+    }
+
+    active.lastHeartbeat = now;
+    active.heartbeatInFlight = true;
+    if (state === 'ended') {
+      delete sessionsRef.current[trackId];
+    }
+
+    client.sendPlayHeartbeat({
+      session_id: session.session_id,
+      signature: session.signature,
+      position,
+      duration,
+      state,
+    }).then((result) => {
+      if (result.signature) {
+        session.signature = result.signature;
+      }
+      if (result.counted) {
+        updateLimits(trackId, { hasDecremented: true });
+      }
+      reconcile(trackId, result.plays, result.play_limit, result.limit_reached);
+    }).catch((error) => {
+      if (error instanceof LimitReachedError) {
+        markLimitReached(trackId, error);
+      } else if (isLinkError(error)) {
+        // The session is gone server-side; the next play has to open a new one
+        if (sessionsRef.current[trackId] === active) delete sessionsRef.current[trackId];
+      } else {
+        console.error('Failed to send play heartbeat:', error);
+      }
+    }).finally(() => {
+      active.heartbeatInFlight = false;
+    });
+  }, [currentTrackId, client, reconcile, updateLimits, markLimitReached]);
+
+  // Read from a ref so it is current right after startPlaySession resolves
+  const getPlaySessionId = useCallback((trackId?: string): string | undefined => {
+    const id = trackId ?? currentTrackId;
+    return id ? sessionsRef.current[id]?.session.session_id : undefined;
+  }, [currentTrackId]);
+
+  const getPlaySession = useCallback((trackId: string): PlaySession | undefined => {
+    return sessionsRef.current[trackId]?.session;
+  }, []);
+
+  const getRefusal = useCallback((trackId: string): ApiErrorCode | undefined => {
+    return refusalsRef.current[trackId];
+  }, []);
+
+  // Continue a play saved before a reload; startPlaySession then reuses it instead of counting a new play
+  const resumePlaySession = useCallback((trackId: string, session: PlaySession) => {
+    if (!isSharedLink || sessionsRef.current[trackId]) return;
+    if (session.expires_at && Date.parse(session.expires_at) <= Date.now()) return;
+
+    sessionsRef.current[trackId] = { session, lastHeartbeat: 0, heartbeatInFlight: false };
+  }, [isSharedLink]);
+
+  // The owner granted more plays (see usePlayRequest); takes effect without a reload
+  const raiseLimit = useCallback((trackId: string, playLimit: number | null, plays?: number) => {
+    setLimitsByTrack((prev) => {
+      const current = prev[trackId] || UNLIMITED;
+      const playCount = plays ?? current.playCount;
+      return {
+        ...prev,
+        [trackId]: {
+          ...current,
+          playCount,
+          playLimit,
+          isLimitReached: !!playLimit && playCount >= playLimit,
+        },
+      };
+    });
+    setSessionError(null);
+  }, []);
 
   return {
-    playCount,
-    playLimit,
-    isLimitReached,
-    hasDecremented,
+    ...currentLimits,
     canPlay,
+    limitsByTrack,
+    sessionError,
     decrementPlayCount,
     checkPlayLimit,
+    startPlaySession,
+    reportProgress,
+    getPlaySessionId,
+    getPlaySession,
+    getRefusal,
+    resumePlaySession,
+    raiseLimit,
   };
-}
\ No newline at end of file
+}
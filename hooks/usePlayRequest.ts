@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChestUser, PlayRequest, PlayRequestStatus } from '../types';
+import { clientFor, shareClientFor } from '../lib/auth';
+import { getDeviceId } from '../lib/device-id';
+import { describeApiError, getApiErrorCode } from '../lib/api-errors';
+
+interface UsePlayRequestProps {
+  trackId?: string;
+  token?: string;
+  user?: ChestUser | null;
+  onApproved?: (trackId: string, request: PlayRequest) => void;
+}
+
+export interface UsePlayRequestReturn {
+  status: PlayRequestStatus | null; // null until the listener asks for the current track
+  isSubmitting: boolean;
+  error: string | null;
+  submit: (message?: string, email?: string) => Promise<boolean>;
+}
+
+// How often a pending request is checked while the page is visible
+const POLL_INTERVAL_MS = 15000;
+
+/**
+ * "Request more plays" for tracks that hit their limit. Requests are kept per
+ * track; pending ones are polled until the owner answers, and an approval is
+ * handed to onApproved so the raised limit applies straight away.
+ */
+export function usePlayRequest({ trackId, token, user, onApproved }: UsePlayRequestProps): UsePlayRequestReturn {
+  const [requests, setRequests] = useState<Record<string, PlayRequest>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onApprovedRef = useRef(onApproved);
+  onApprovedRef.current = onApproved;
+
+  const update = useCallback((request: PlayRequest) => {
+    setRequests((prev) => ({ ...prev, [request.track_id]: request }));
+    if (request.status === 'approved') {
+      onApprovedRef.current?.(request.track_id, request);
+    }
+  }, []);
+
+  useEffect(() => {
+    setError(null);
+  }, [trackId]);
+
+  const pendingIds = Object.values(requests)
+    .filter((request) => request.status === 'pending')
+    .map((request) => request.id)
+    .join(',');
+
+  // Poll pending requests; skipped while the tab is hidden
+  useEffect(() => {
+    if (!pendingIds) return;
+    const client = token ? shareClientFor(token) : clientFor(user);
+
+    const poll = () => {
+      if (document.hidden) return;
+      pendingIds.split(',').forEach((requestId) => {
+        client.getPlayRequest(requestId)
+          .then((request) => {
+            if (request.status !== 'pending') update(request);
+          })
+          .catch((err) => {
+            console.error('Failed to check play request:', err);
+          });
+      });
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    document.addEventListener('visibilitychange', poll);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', poll);
+    };
+  }, [pendingIds, token, user, update]);
+
+  const submit = useCallback(async (message?: string, email?: string): Promise<boolean> => {
+    if (!trackId || isSubmitting) return false;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const client = token ? shareClientFor(token) : clientFor(user);
+      const request = await client.requestMorePlays({
+        id: trackId,
+        token,
+        device_id: user ? undefined : getDeviceId(),
+        message: message?.trim() || undefined,
+        email: email?.trim() || undefined,
+      });
+      update(request);
+      return true;
+    } catch (err) {
+      console.error('Failed to request more plays:', err);
+      const code = getApiErrorCode(err);
+      setError(code === 'rate_limited' ? describeApiError(code).message : 'Your request could not be sent. Please try again.');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [trackId, token, user, isSubmitting, update]);
+
+  return {
+    status: (trackId && requests[trackId]?.status) || null,
+    isSubmitting,
+    error,
+    submit,
+  };
+}
@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { Track, PlayerState, RepeatMode } from '../types';
+import { PlayerEngine, PlayerEngineOptions } from '../lib/player-engine';
+
+export interface PlayerControls {
+  play: () => Promise<boolean>;
+  pause: () => void;
+  toggle: () => void;
+  seek: (time: number) => void;
+  setEndTime: (time: number | null) => void;
+  next: () => void;
+  prev: () => void;
+  skipTo: (trackIndex: number, autoplay?: boolean) => void;
+  playNext: (trackIndex: number) => void;
+  addToQueue: (trackIndex: number) => void;
+  removeFromQueue: (position: number) => void;
+  moveInQueue: (from: number, to: number) => void;
+  setVolume: (volume: number) => void;
+  toggleMute: () => void;
+  setRepeatMode: (repeatMode: RepeatMode) => void;
+  cycleRepeatMode: () => void;
+  toggleShuffle: () => void;
+  setQueue: (tracks: Track[], startIndex?: number) => void;
+}
+
+export interface UsePlayerReturn extends PlayerControls {
+  state: PlayerState;
+  currentTrack?: Track;
+  engine: PlayerEngine;
+}
+
+/**
+ * Headless player: owns a PlayerEngine for the component's lifetime and
+ * re-renders on every state change. Any UI (PlayerBar, a share page hero,
+ * an embed) can be built on the returned state and commands.
+ */
+export function usePlayer(tracks: Track[], options: PlayerEngineOptions = {}): UsePlayerReturn {
+  const [engine] = useState(() => new PlayerEngine(options));
+  const state = useSyncExternalStore(engine.subscribe, engine.getState, engine.getState);
+
+  // Callbacks change identity between renders; the engine always uses the latest ones
+  useEffect(() => {
+    engine.setOptions(options);
+  });
+
+  useEffect(() => {
+    engine.setQueue(tracks);
+  }, [engine, tracks]);
+
+  useEffect(() => () => engine.destroy(), [engine]);
+
+  const controls = useMemo((): PlayerControls => ({
+    play: () => engine.play(),
+    pause: () => engine.pause(),
+    toggle: () => engine.toggle(),
+    seek: (time) => engine.seek(time),
+    setEndTime: (time) => engine.setEndTime(time),
+    next: () => engine.next(),
+    prev: () => engine.prev(),
+    skipTo: (trackIndex, autoplay) => engine.skipTo(trackIndex, autoplay),
+    playNext: (trackIndex) => engine.playNext(trackIndex),
+    addToQueue: (trackIndex) => engine.addToQueue(trackIndex),
+    removeFromQueue: (position) => engine.removeFromQueue(position),
+    moveInQueue: (from, to) => engine.moveInQueue(from, to),
+    setVolume: (volume) => engine.setVolume(volume),
+    toggleMute: () => engine.toggleMute(),
+    setRepeatMode: (repeatMode) => engine.setRepeatMode(repeatMode),
+    cycleRepeatMode: () => engine.cycleRepeatMode(),
+    toggleShuffle: () => engine.toggleShuffle(),
+    setQueue: (queue, startIndex) => engine.setQueue(queue, startIndex),
+  }), [engine]);
+
+  return {
+    ...controls,
+    state,
+    currentTrack: engine.currentTrack || tracks[state.currentTrackIndex],
+    engine,
+  };
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PlaySession, ResumeOffer } from '../types';
+import { PlayerStorage, PlayerPreferences, SavedPosition } from '../lib/player-storage';
+import { PlayerEngine } from '../lib/player-engine';
+import { UsePlayerReturn } from './usePlayer';
+
+interface UsePlayerPersistenceOptions {
+  token?: string; // Positions are kept per share link
+  storage?: PlayerStorage;
+  getSession?: (trackId: string) => PlaySession | undefined;
+  onResume?: (trackId: string, saved: SavedPosition) => void;
+}
+
+// Not worth offering a resume this close to either end of the track
+const MIN_RESUME_SECONDS = 10;
+const END_MARGIN_SECONDS = 10;
+
+// How often the position is written while playing
+const SAVE_INTERVAL_MS = 5000;
+
+function preferencesOf(engine: PlayerEngine): PlayerPreferences {
+  const { volume, isMuted, repeatMode, isShuffled } = engine.getState();
+  return { volume, isMuted, repeatMode, isShuffled };
+}
+
+/**
+ * Restore preferences on mount and keep them saved; remember where each track
+ * was left and offer to resume it. A resumed play continues its stored play
+ * session (handed back through onResume) rather than counting as a new play.
+ */
+export function usePlayerPersistence(
+  { engine, state, currentTrack }: UsePlayerReturn,
+  options: UsePlayerPersistenceOptions = {}
+): ResumeOffer | null {
+  const [storage] = useState(() => options.storage || new PlayerStorage());
+  const [offer, setOffer] = useState<{ trackId: string; saved: SavedPosition } | null>(null);
+  const { token } = options;
+
+  // Callbacks change identity between renders; handlers always read the latest ones
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Preferences are global: restore once, then save whenever they change
+  useEffect(() => {
+    const preferences = storage.loadPreferences();
+    if (preferences) {
+      engine.setVolume(preferences.volume);
+      if (engine.getState().isMuted !== preferences.isMuted) engine.toggleMute();
+      engine.setRepeatMode(preferences.repeatMode);
+      if (engine.getState().isShuffled !== preferences.isShuffled) engine.toggleShuffle();
+    }
+
+    let saved = JSON.stringify(preferencesOf(engine));
+    return engine.subscribe(() => {
+      const current = preferencesOf(engine);
+      const serialized = JSON.stringify(current);
+      if (serialized !== saved) {
+        saved = serialized;
+        storage.savePreferences(current);
+      }
+    });
+  }, [engine, storage]);
+
+  // Positions: periodically while playing, and on pause, seek and page exit
+  useEffect(() => {
+    let lastSave = 0;
+
+    const save = () => {
+      const trackId = engine.currentTrack?.id;
+      if (!trackId) return;
+
+      lastSave = Date.now();
+      const { currentTime, duration } = engine.getState();
+      if (currentTime < MIN_RESUME_SECONDS || (duration > 0 && duration - currentTime < END_MARGIN_SECONDS)) {
+        storage.clearPosition(trackId, token);
+        return;
+      }
+
+      storage.savePosition(trackId, token, {
+        position: currentTime,
+        duration,
+        session: optionsRef.current.getSession?.(trackId),
+      });
+    };
+
+    const clear = () => {
+      const trackId = engine.currentTrack?.id;
+      if (trackId) storage.clearPosition(trackId, token);
+    };
+
+    const unsubscribers = [
+      engine.subscribe(() => {
+        if (engine.getState().isPlaying && Date.now() - lastSave >= SAVE_INTERVAL_MS) save();
+      }),
+      engine.on('pause', save),
+      engine.on('seek', save),
+      // Finished tracks start over next time
+      engine.on('ended', clear),
+      // Any play, resumed or not, answers the offer
+      engine.on('play', () => setOffer(null)),
+    ];
+
+    window.addEventListener('pagehide', save);
+    return () => {
+      window.removeEventListener('pagehide', save);
+      unsubscribers.forEach((off) => off());
+    };
+  }, [engine, storage, token]);
+
+  // Offer to resume whenever a track is loaded that was left part-way through
+  const trackId = currentTrack?.id;
+  useEffect(() => {
+    const saved = trackId && !engine.getState().isPlaying ? storage.loadPosition(trackId, token) : null;
+    setOffer(saved && trackId ? { trackId, saved } : null);
+  }, [engine, storage, trackId, token]);
+
+  const resume = useCallback(() => {
+    if (!offer) return;
+
+    setOffer(null);
+    optionsRef.current.onResume?.(offer.trackId, offer.saved);
+    engine.seek(offer.saved.position);
+    engine.play();
+  }, [engine, offer]);
+
+  const dismiss = useCallback(() => {
+    if (!offer) return;
+
+    setOffer(null);
+    storage.clearPosition(offer.trackId, token);
+  }, [offer, storage, token]);
+
+  // Hide the offer once the track has moved on by itself
+  if (!offer || offer.trackId !== trackId || state.currentTime > 0) return null;
+
+  return {
+    position: offer.saved.position,
+    resume,
+    dismiss,
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useCallback } from 'react';
+import { ChestUser, ShareLink } from '../types';
+import { clientFor } from '../lib/auth';
+
+interface UseShareDashboardProps {
+  initialShares: ShareLink[]; // Loaded server-side
+  user: ChestUser;
+}
+
+interface UseShareDashboardReturn {
+  shares: ShareLink[];
+  pendingToken: string | null; // The share an action is running on
+  error: string | null;
+  setPlayLimit: (token: string, playLimit: number | null) => Promise<boolean>;
+  revoke: (token: string) => Promise<boolean>;
+  regenerate: (token: string) => Promise<boolean>;
+}
+
+/**
+ * An owner's share links and the actions on them. One action runs at a time;
+ * the list follows the API's answer rather than guessing ahead of it.
+ */
+export function useShareDashboard({ initialShares, user }: UseShareDashboardProps): UseShareDashboardReturn {
+  const [shares, setShares] = useState(initialShares);
+  const [pendingToken, setPendingToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (
+    token: string,
+    action: () => Promise<(list: ShareLink[]) => ShareLink[]>,
+    failure: string
+  ): Promise<boolean> => {
+    if (pendingToken) return false;
+
+    setPendingToken(token);
+    setError(null);
+    try {
+      const update = await action();
+      setShares(update);
+      return true;
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(failure);
+      return false;
+    } finally {
+      setPendingToken(null);
+    }
+  }, [pendingToken]);
+
+  const replace = (token: string, share: ShareLink) => (list: ShareLink[]) =>
+    list.map((item) => (item.token === token ? share : item));
+
+  const setPlayLimit = useCallback((token: string, playLimit: number | null) => run(token, async () => {
+    const share = await clientFor(user).updateShareLimit({ token, play_limit: playLimit });
+    return replace(token, share);
+  }, 'The play limit could not be changed'), [run, user]);
+
+  const revoke = useCallback((token: string) => run(token, async () => {
+    await clientFor(user).revokeShare(token);
+    return (list: ShareLink[]) => list.filter((item) => item.token !== token);
+  }, 'The link could not be revoked'), [run, user]);
+
+  const regenerate = useCallback((token: string) => run(token, async () => {
+    const share = await clientFor(user).regenerateShare(token);
+    return replace(token, share);
+  }, 'A new link could not be created'), [run, user]);
+
+  return {
+    shares,
+    pendingToken,
+    error,
+    setPlayLimit,
+    revoke,
+    regenerate,
+  };
+}
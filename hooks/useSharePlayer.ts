@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ChestTrack, ChestUser, ResolvedSource, ResumeOffer, Track } from '../types';
+import { ApiErrorCode } from '../lib/api-errors';
+import { clientFor } from '../lib/auth';
+import { hasOfflineAudio, isOfflineAudioSupported, offlineAudioUrl, removeOfflineAudio } from '../lib/offline-audio';
+import { CollectionSummary } from '../lib/share';
+import { chestTracksToTracks } from '../utils/track-adapter';
+import { usePlayer, UsePlayerReturn } from './usePlayer';
+import { usePlayLimits, UsePlayLimitsReturn } from './usePlayLimits';
+import { usePlayerPersistence } from './usePlayerPersistence';
+import { usePlayRequest, UsePlayRequestReturn } from './usePlayRequest';
+import { useListeningAnalytics } from './useListeningAnalytics';
+
+interface UseSharePlayerProps {
+  tracks?: ChestTrack[];
+  token: string;
+  collection?: CollectionSummary;
+  start?: number | null; // Deep link section of the first track, in seconds
+  end?: number | null;
+  crossfade?: number | null; // Seconds; needs CORS-enabled audio, see PlayerEngineOptions
+  user?: ChestUser | null;
+}
+
+interface UseSharePlayerReturn {
+  player: UsePlayerReturn;
+  playLimits: UsePlayLimitsReturn;
+  currentIndex: number;
+  currentTrack: ChestTrack | null;
+  isLimitModalOpen: boolean;
+  closeLimitModal: () => void;
+  resumeOffer: ResumeOffer | null;
+  playRequest: UsePlayRequestReturn;
+}
+
+// Stable fallback so error pages don't hand the engine a new queue every render
+const NO_TRACKS: ChestTrack[] = [];
+
+// Refusals after which the track won't play again from this link
+const CLOSED_REFUSALS: ApiErrorCode[] = ['limit_reached', 'expired', 'not_found', 'unauthorized'];
+
+/**
+ * Player for a share token: plays run in server play sessions, sources are
+ * signed per session, a refused play opens the limit modal, and listeners can
+ * pick up where they left off. How the share is listened to is reported to the
+ * artist. Shares that allow downloads keep their audio for replays and offline
+ * listening. Shared by the share page and the embed.
+ */
+export function useSharePlayer({ tracks = NO_TRACKS, token, collection, start, end, crossfade, user }: UseSharePlayerProps): UseSharePlayerReturn {
+  const [isLimitModalOpen, setIsLimitModalOpen] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const currentTrack = tracks[currentIndex] || null;
+  const isSharedLink = !!token;
+
+  // Only shares that let listeners keep a copy are cached
+  const isCacheable = useCallback((trackId?: string): boolean => {
+    return isSharedLink && !!tracks.find((track) => track.id === trackId)?.allow_download;
+  }, [isSharedLink, tracks]);
+
+  const canPlayOffline = useCallback(async (trackId: string): Promise<boolean> => {
+    return isCacheable(trackId) && hasOfflineAudio(token, trackId);
+  }, [isCacheable, token]);
+
+  const playLimits = usePlayLimits({
+    tracks,
+    currentTrackId: currentTrack?.id,
+    isSharedLink,
+    user,
+    token,
+    canPlayOffline
+  });
+  const { startPlaySession, reportProgress, getPlaySessionId, getPlaySession, getRefusal, resumePlaySession, raiseLimit } = playLimits;
+
+  // Listeners who hit a limit can ask for more; an approval applies right away
+  const playRequest = usePlayRequest({
+    trackId: currentTrack?.id,
+    token,
+    user,
+    onApproved: (trackId, request) => raiseLimit(trackId, request.play_limit ?? null, request.plays),
+  });
+
+  // Every play runs in a server session; a gapless or crossfaded track opens its own just before the handoff
+  const handleBeforePlay = useCallback((track: Track): Promise<boolean> => {
+    return startPlaySession(track.id);
+  }, [startPlaySession]);
+
+  // Audio URLs are never part of the page; each play gets a short-lived signed one,
+  // unless the service worker already has the track (see lib/offline-audio)
+  const resolveSource = useCallback(async (track: Track): Promise<ResolvedSource> => {
+    const id = track.id || '';
+    const cacheable = isCacheable(id) && isOfflineAudioSupported();
+    if (cacheable && await hasOfflineAudio(token, id)) {
+      return { url: offlineAudioUrl(token, id) };
+    }
+
+    const source = await clientFor(user).getTrackSource({
+      id,
+      session: getPlaySessionId(track.id),
+    });
+    return {
+      url: cacheable ? offlineAudioUrl(token, id, source.url) : source.url,
+      expiresAt: source.expires_at ? Date.parse(source.expires_at) : undefined,
+    };
+  }, [isCacheable, token, getPlaySessionId, user]);
+
+  // The page owns the engine so the hero and tracklist follow playback too
+  const queue = useMemo(() => chestTracksToTracks(tracks), [tracks]);
+  const player = usePlayer(queue, {
+    onTrackChange: setCurrentIndex,
+    onBeforePlay: isSharedLink ? handleBeforePlay : undefined,
+    onProgress: isSharedLink ? reportProgress : undefined,
+    resolveSource,
+    // Albums and playlists run straight into the next track, or fade into it when asked to
+    gapless: !!collection && collection.type !== 'track',
+    crossfade: collection && collection.type !== 'track' ? crossfade || undefined : undefined,
+  });
+
+  useListeningAnalytics(player, { token, user });
+
+  // Explain only once a play is actually refused, not when a handoff is. When the
+  // limit is used up or the link is gone a cached copy goes too; when the service
+  // was merely unreachable it stays for next time.
+  useEffect(() => player.engine.on('blocked', ({ track }) => {
+    setIsLimitModalOpen(true);
+    const refusal = track.id ? getRefusal(track.id) : undefined;
+    if (track.id && isCacheable(track.id) && refusal && CLOSED_REFUSALS.includes(refusal)) {
+      removeOfflineAudio(token, track.id);
+    }
+  }), [player.engine, isCacheable, getRefusal, token]);
+
+  const closeLimitModal = useCallback(() => setIsLimitModalOpen(false), []);
+
+  // A ?t=&end= deep link applies once, after the engine has its queue. The engine
+  // holds the seek until metadata loads, and a deep link takes the place of a resume offer.
+  const sectionAppliedRef = useRef(false);
+  useEffect(() => {
+    if (sectionAppliedRef.current || !tracks.length) return;
+    sectionAppliedRef.current = true;
+
+    if (start) player.engine.seek(start);
+    if (end) player.engine.setEndTime(end);
+  }, [player.engine, tracks, start, end]);
+
+  const resumeOffer = usePlayerPersistence(player, {
+    token,
+    getSession: getPlaySession,
+    onResume: (trackId, saved) => {
+      if (saved.session) resumePlaySession(trackId, saved.session);
+    },
+  });
+
+  return {
+    player,
+    playLimits,
+    currentIndex,
+    currentTrack,
+    isLimitModalOpen,
+    closeLimitModal,
+    resumeOffer,
+    playRequest,
+  };
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { ChestUser, ShareStats } from '../types';
+import { clientFor } from '../lib/auth';
+import { isCancelled } from '../lib/api-errors';
+
+interface UseShareStatsProps {
+  token: string;
+  enabled: boolean; // Stats are only fetched once someone looks at them
+  user: ChestUser;
+}
+
+interface UseShareStatsReturn {
+  stats: ShareStats | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useShareStats({ token, enabled, user }: UseShareStatsProps): UseShareStatsReturn {
+  const [stats, setStats] = useState<ShareStats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Hiding the stats mid-request cancels it; don't leave it loading
+    setStats(null);
+    setError(null);
+    setIsLoading(false);
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    clientFor(user).getShareStats(token, { signal: controller.signal })
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setStats(result);
+        setIsLoading(false);
+      })
+      .catch((err) => {
+        if (isCancelled(err)) return;
+        console.error('Failed to load share stats:', err);
+        setError('Stats could not be loaded');
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [token, enabled, user]);
+
+  return {
+    stats,
+    isLoading,
+    error,
+  };
+}
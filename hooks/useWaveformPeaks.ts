@@ -0,0 +1,48 @@
+import { useEffect, useMemo, useState } from 'react';
+import { UsePlayerReturn } from './usePlayer';
+import { decodePeaks, fetchPeaks, normalizePeaks } from '../utils/waveform';
+
+// Peaks never change for a track; share them across remounts and revisits
+const peaksCache = new Map<string, Promise<number[]>>();
+
+/**
+ * Waveform peaks for the player's current track: inline peaks, its peaks
+ * file, or, failing both, decoded from the audio once the engine has loaded
+ * it (signed sources have no URL before that). Null while unavailable.
+ */
+export function useWaveformPeaks({ engine, state, currentTrack }: UsePlayerReturn, enabled = true): number[] | null {
+  const [loaded, setLoaded] = useState<{ key: string; peaks: number[] } | null>(null);
+
+  const key = currentTrack ? currentTrack.id || currentTrack.url : '';
+  const inlinePeaks = currentTrack?.peaks;
+  const peaksUrl = currentTrack?.peaksUrl;
+  const src = state.duration > 0 ? engine.currentSrc : undefined;
+  const normalizedInline = useMemo(() => (inlinePeaks?.length ? normalizePeaks(inlinePeaks) : null), [inlinePeaks]);
+
+  useEffect(() => {
+    if (!enabled || !key || inlinePeaks?.length) return;
+
+    let request = peaksCache.get(key);
+    if (!request) {
+      if (!peaksUrl && !src) return;
+      request = peaksUrl ? fetchPeaks(peaksUrl) : decodePeaks(src as string);
+      peaksCache.set(key, request);
+    }
+
+    let cancelled = false;
+    request.then((peaks) => {
+      if (!cancelled) setLoaded({ key, peaks });
+    }).catch((error) => {
+      peaksCache.delete(key);
+      console.error('Failed to load waveform peaks:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, key, inlinePeaks, peaksUrl, src]);
+
+  if (!enabled || !key) return null;
+  if (normalizedInline) return normalizedInline;
+  return loaded?.key === key ? loaded.peaks : null;
+}
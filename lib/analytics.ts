@@ -0,0 +1,281 @@
+/**
+ * ListeningAnalytics
+ *
+ * Turns PlayerEngine events into listening events for the artist: play, pause,
+ * seek (from/to), buffering stalls, ended, and how much of each play was
+ * actually heard. Events are queued per share token and shipped in batches:
+ * when the queue fills up, on a timer, and when the page is hidden or
+ * unloaded. The last two go out with navigator.sendBeacon, which survives the
+ * tab closing where a fetch would be cut off.
+ *
+ * Delivery is an AnalyticsTransport: the Chest API's ingestion endpoint by
+ * default (apiTransport), any URL with beaconTransport, e.g. a local stub
+ * server via NEXT_PUBLIC_ANALYTICS_URL. Failed batches are dropped, not
+ * retried; analytics never get in the way of playback.
+ */
+
+import { apiClient } from './api-client';
+import type ChestAPIClient from './api-client';
+import type { PlayerEngine } from './player-engine';
+import { ListeningEvent, ListeningEventBatch, ListeningEventType } from '../types';
+
+export interface AnalyticsTransport {
+  // While `unloading` the page may be gone before a promise settles; only fire-and-forget delivery works
+  send(batch: ListeningEventBatch, unloading: boolean): void | Promise<void>;
+}
+
+export interface ListeningAnalyticsOptions {
+  token: string;
+  deviceId?: string;
+  transport?: AnalyticsTransport;
+  batchSize?: number; // Flush as soon as this many events are queued
+  flushInterval?: number; // Milliseconds between timed flushes
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 30000;
+
+// Short waits (a seek into buffered audio) are not worth reporting
+const MIN_STALL_MS = 250;
+
+// A bigger jump between two position updates is a seek, not listening
+const MAX_TICK_SECONDS = 2;
+
+// One play of one track, from its first 'play' until it ends or another track takes over
+interface CurrentPlay {
+  trackId: string;
+  playId: string;
+  listened: number; // Seconds actually heard
+  lastTime: number;
+  duration: number;
+  reported: number; // `listened` at the last completion event
+}
+
+interface Stall {
+  trackId: string;
+  playId: string;
+  position: number;
+  startedAt: number;
+}
+
+// text/plain keeps a cross-origin beacon a simple request, without a CORS preflight; the body is JSON all the same
+function beacon(url: string, batch: ListeningEventBatch): boolean {
+  if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') return false;
+  try {
+    return navigator.sendBeacon(url, new Blob([JSON.stringify(batch)], { type: 'text/plain;charset=UTF-8' }));
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * POST batches to any URL as beacons, or as a keepalive fetch where sendBeacon is
+ * missing or refuses the payload
+ */
+export function beaconTransport(url: string): AnalyticsTransport {
+  return {
+    send(batch) {
+      if (beacon(url, batch)) return;
+
+      return fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+        body: JSON.stringify(batch),
+        credentials: 'include',
+        keepalive: true,
+      }).then(() => undefined);
+    },
+  };
+}
+
+/**
+ * The Chest API's ingestion endpoint: regular flushes through the client, with its
+ * timeouts and auth; flushes on unload as beacons to the same endpoint
+ */
+export function apiTransport(client: ChestAPIClient = apiClient): AnalyticsTransport {
+  const unload = beaconTransport(client.analyticsUrl);
+  return {
+    send(batch, unloading) {
+      return unloading ? unload.send(batch, true) : client.sendListeningEvents(batch);
+    },
+  };
+}
+
+/**
+ * apiTransport, unless NEXT_PUBLIC_ANALYTICS_URL points the events somewhere else
+ */
+export function defaultTransport(client: ChestAPIClient = apiClient): AnalyticsTransport {
+  const url = process.env.NEXT_PUBLIC_ANALYTICS_URL;
+  return url ? beaconTransport(url) : apiTransport(client);
+}
+
+let playCounter = 0;
+
+function createPlayId(): string {
+  playCounter += 1;
+  return `${Date.now().toString(36)}-${playCounter.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export class ListeningAnalytics {
+  private token: string;
+  private deviceId?: string;
+  private transport: AnalyticsTransport;
+  private batchSize: number;
+  private flushInterval: number;
+
+  private queue: ListeningEvent[] = [];
+  private current: CurrentPlay | null = null;
+  private stall: Stall | null = null;
+
+  constructor(options: ListeningAnalyticsOptions) {
+    this.token = options.token;
+    this.deviceId = options.deviceId;
+    this.transport = options.transport || defaultTransport();
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.flushInterval = options.flushInterval ?? DEFAULT_FLUSH_INTERVAL_MS;
+  }
+
+  /**
+   * Follow an engine and the page lifecycle; returns a function that stops and flushes
+   */
+  attach(engine: PlayerEngine): () => void {
+    const trackId = () => engine.currentTrack?.id;
+
+    // Count what is heard: small forward steps while playing, never seeks or rewinds
+    const unsubscribe = engine.subscribe(() => {
+      const play = this.current;
+      if (!play || play.trackId !== trackId()) return;
+
+      const { currentTime, duration, isPlaying } = engine.getState();
+      const step = currentTime - play.lastTime;
+      if (isPlaying && step > 0 && step <= MAX_TICK_SECONDS) play.listened += step;
+      play.lastTime = currentTime;
+      if (duration) play.duration = duration;
+    });
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') this.suspend();
+    };
+    const handlePageHide = () => this.suspend();
+
+    const unsubscribers = [
+      unsubscribe,
+      engine.on('play', ({ position }) => {
+        const id = trackId();
+        if (!id) return;
+        if (this.current?.trackId !== id) this.startPlay(id, position);
+        this.record('play', position);
+      }),
+      engine.on('pause', ({ position }) => {
+        this.endStall();
+        this.record('pause', position);
+      }),
+      engine.on('seek', ({ from, to }) => {
+        this.record('seek', from, { from, to });
+        if (this.current) this.current.lastTime = to;
+      }),
+      engine.on('waiting', ({ position }) => {
+        const play = this.current;
+        if (play && engine.getState().isPlaying && !this.stall) {
+          this.stall = { trackId: play.trackId, playId: play.playId, position, startedAt: Date.now() };
+        }
+      }),
+      engine.on('playing', () => this.endStall()),
+      engine.on('ended', ({ duration }) => {
+        this.endStall();
+        if (this.current && duration) this.current.duration = duration;
+        this.record('ended', duration);
+        this.endPlay();
+      }),
+      engine.on('trackchange', ({ track }) => {
+        if (this.current && this.current.trackId !== track.id) {
+          this.endStall();
+          this.endPlay();
+        }
+      }),
+    ];
+
+    const timer = setInterval(() => this.flush(), this.flushInterval);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+      unsubscribers.forEach((off) => off());
+      this.endStall();
+      this.endPlay();
+      this.flush();
+    };
+  }
+
+  /**
+   * Send whatever is queued
+   */
+  flush(unloading = false): void {
+    if (!this.queue.length) return;
+
+    const batch: ListeningEventBatch = {
+      token: this.token,
+      ...(this.deviceId && { device_id: this.deviceId }),
+      events: this.queue.splice(0),
+    };
+
+    try {
+      Promise.resolve(this.transport.send(batch, unloading)).catch((error) => {
+        console.error('Failed to send listening events:', error);
+      });
+    } catch (error) {
+      console.error('Failed to send listening events:', error);
+    }
+  }
+
+  // The page may never come back (mobile browsers rarely fire pagehide): report progress so far
+  private suspend(): void {
+    this.reportCompletion();
+    this.flush(true);
+  }
+
+  private startPlay(trackId: string, position: number): void {
+    this.endPlay();
+    this.current = { trackId, playId: createPlayId(), listened: 0, lastTime: position, duration: 0, reported: 0 };
+  }
+
+  private endPlay(): void {
+    this.reportCompletion();
+    this.current = null;
+  }
+
+  private reportCompletion(): void {
+    const play = this.current;
+    if (!play || !play.duration || play.listened === play.reported) return;
+
+    play.reported = play.listened;
+    const percent = Math.min(100, Math.round((play.listened / play.duration) * 1000) / 10);
+    this.record('completion', play.lastTime, { percent });
+  }
+
+  private endStall(): void {
+    const stall = this.stall;
+    if (!stall) return;
+
+    this.stall = null;
+    const stallMs = Date.now() - stall.startedAt;
+    if (stallMs >= MIN_STALL_MS) {
+      this.push({ type: 'stall', track_id: stall.trackId, play_id: stall.playId, position: stall.position, at: stall.startedAt, stall_ms: stallMs });
+    }
+  }
+
+  private record(type: ListeningEventType, position: number, extra: Partial<ListeningEvent> = {}): void {
+    const play = this.current;
+    if (!play) return;
+
+    this.push({ type, track_id: play.trackId, play_id: play.playId, position, at: Date.now(), ...extra });
+  }
+
+  private push(event: ListeningEvent): void {
+    this.queue.push(event);
+    if (this.queue.length >= this.batchSize) this.flush();
+  }
+}
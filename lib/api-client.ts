@@ -1,85 +1,443 @@
 import {
   ChestTrack,
+  SharedCollection,
+  GetSharedCollectionRequest,
   GetTrackSourceRequest,
   GetTrackSourceResponse,
   UpdateTrackPlayRequest,
   UpdateTrackPlayResponse,
+  StartPlaySessionRequest,
+  PlaySession,
+  PlayHeartbeatRequest,
+  PlayHeartbeatResponse,
+  CreatePlayRequestRequest,
+  PlayRequest,
+  TrackComment,
+  GetCommentsRequest,
+  PostCommentRequest,
+  ChestUser,
+  LoginRequest,
+  AuthSession,
+  UnlockShareRequest,
+  ShareAccess,
+  ListeningEventBatch,
+  ShareLink,
+  ShareStats,
+  CreateShareRequest,
+  UpdateShareRequest,
   TrackMeta
 } from '../types';
+import { socialCardUrl } from './urls';
+import {
+  Schema,
+  SharedResponse,
+  authSessionSchema,
+  chestTrackSchema,
+  commentListSchema,
+  commentSchema,
+  heartbeatResponseSchema,
+  noContentSchema,
+  playRequestSchema,
+  playSessionSchema,
+  shareAccessSchema,
+  shareLinkListSchema,
+  shareLinkSchema,
+  shareStatsSchema,
+  sharedResponseSchema,
+  trackSourceResponseSchema,
+  updateTrackPlayResponseSchema,
+  userSchema,
+  validate,
+} from './api-schema';
+import {
+  ApiError,
+  CancelledError,
+  NetworkError,
+  RateLimitedError,
+  ServerError,
+  ValidationError,
+  parseApiError,
+} from './api-errors';
 
 // Configuration
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api.chestmusic.com';
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api.chestmusic.com';
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+// Don't keep a listener waiting on a long Retry-After
+const MAX_RETRY_DELAY_MS = 5000;
+
+export interface ChestAPIClientOptions {
+  timeout?: number; // Per attempt, in milliseconds
+  retries?: number; // Extra attempts for GETs after network, server and rate limit errors
+}
+
+// Who requests are made for: a bearer session token (server side, see lib/auth)
+// or the browser's own cookies for the API domain
+export interface ChestAPIAuth {
+  session?: string;
+  credentials?: RequestCredentials;
+}
+
+// Per-call overrides; abort the signal to cancel a request (it then rejects with CancelledError)
+export interface RequestOptions extends ChestAPIClientOptions {
+  signal?: AbortSignal;
+}
+
+interface RequestConfig extends RequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  body?: unknown;
+}
+
+function isRetryable(error: ApiError): boolean {
+  return error instanceof NetworkError || error instanceof ServerError || error instanceof RateLimitedError;
+}
+
+// Exponential backoff with jitter, or whatever the server asked for
+function retryDelay(error: ApiError, attempt: number): number {
+  if (error instanceof RateLimitedError && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  const base = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+  return base + Math.random() * base;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Request cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
 class ChestAPIClient {
   private baseUrl: string;
+  private options: Required<ChestAPIClientOptions>;
+  private auth: ChestAPIAuth;
 
-  constructor(baseUrl: string = API_BASE_URL) {
+  constructor(baseUrl: string = API_BASE_URL, options: ChestAPIClientOptions = {}, auth: ChestAPIAuth = {}) {
     this.baseUrl = baseUrl;
+    this.options = {
+      timeout: options.timeout ?? DEFAULT_TIMEOUT_MS,
+      retries: options.retries ?? DEFAULT_RETRIES,
+    };
+    this.auth = auth;
   }
 
   /**
-   * Get track source/audio URL
+   * A client with the same settings that makes its requests as a signed-in user
    */
-  async getTrackSource({ id, session }: GetTrackSourceRequest): Promise<GetTrackSourceResponse> {
-    const url = `${this.baseUrl}/tracks/${id}/source`;
-    const params = session ? `?session=${session}` : '';
-    
-    const response = await fetch(`${url}${params}`);
-    if (!response.ok) {
-      throw new Error(`Failed to get track source: ${response.status}`);
+  withAuth(auth: ChestAPIAuth): ChestAPIClient {
+    return new ChestAPIClient(this.baseUrl, this.options, auth);
+  }
+
+  get isAuthenticated(): boolean {
+    return !!this.auth.session || this.auth.credentials === 'include';
+  }
+
+  /**
+   * Fetch JSON from the API and validate it against `schema`. Failures throw an ApiError
+   * subclass (see lib/api-errors); GETs are retried with backoff since repeating them is harmless.
+   */
+  private async request<T>(path: string, action: string, schema: Schema<T>, init: RequestConfig = {}): Promise<T> {
+    const { method = 'GET', body, signal } = init;
+    const retries = method === 'GET' ? init.retries ?? this.options.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await this.attempt(path, action, method, body, init.timeout ?? this.options.timeout, signal);
+        return validate(schema, data, action);
+      } catch (error) {
+        if (!(error instanceof ApiError) || !isRetryable(error) || attempt >= retries) {
+          throw error;
+        }
+        await wait(retryDelay(error, attempt), signal);
+      }
     }
-    
-    return response.json();
+  }
+
+  private async attempt(
+    path: string,
+    action: string,
+    method: string,
+    body: unknown,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    if (signal?.aborted) {
+      throw new CancelledError(`Failed to ${action}: cancelled`);
+    }
+
+    // One controller per attempt, aborted by the timeout or by the caller's signal
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (this.auth.session) headers['Authorization'] = `Bearer ${this.auth.session}`;
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}${path}`, {
+          method,
+          headers,
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+          credentials: this.auth.credentials,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (timedOut) {
+          const timeoutError = new NetworkError(`Failed to ${action}: timed out after ${timeout}ms`);
+          timeoutError.timedOut = true;
+          throw timeoutError;
+        }
+        if (signal?.aborted) {
+          throw new CancelledError(`Failed to ${action}: cancelled`);
+        }
+        throw new NetworkError(`Failed to ${action}: ${error instanceof Error ? error.message : 'network error'}`);
+      }
+
+      if (!response.ok) {
+        throw await parseApiError(response, action);
+      }
+      if (response.status === 204) {
+        return null;
+      }
+
+      try {
+        return await response.json();
+      } catch (error) {
+        const invalid = new ValidationError(`Failed to ${action}: response is not valid JSON`);
+        console.error(invalid.message);
+        throw invalid;
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Get track source/audio URL
+   */
+  async getTrackSource({ id, session }: GetTrackSourceRequest, options?: RequestOptions): Promise<GetTrackSourceResponse> {
+    const params = session ? `?session=${encodeURIComponent(session)}` : '';
+    return this.request(`/tracks/${encodeURIComponent(id)}/source${params}`, 'get track source', trackSourceResponseSchema, options);
   }
 
   /**
    * Get track metadata by ID (for non-shared tracks)
    */
-  async getTrack(id: string): Promise<ChestTrack> {
-    const response = await fetch(`${this.baseUrl}/tracks/${id}`);
-    if (!response.ok) {
-      throw new Error(`Failed to get track: ${response.status}`);
-    }
-    
-    return response.json();
+  async getTrack(id: string, options?: RequestOptions): Promise<ChestTrack> {
+    return this.request(`/tracks/${encodeURIComponent(id)}`, 'get track', chestTrackSchema, options);
   }
 
   /**
    * Get shared track by token
    */
-  async getSharedTrack(token: string): Promise<ChestTrack> {
-    const response = await fetch(`${this.baseUrl}/share/${token}`);
-    if (!response.ok) {
-      throw new Error(`Failed to get shared track: ${response.status}`);
+  async getSharedTrack(token: string, options?: RequestOptions): Promise<ChestTrack> {
+    return this.request(`/share/${encodeURIComponent(token)}`, 'get shared track', chestTrackSchema, options);
+  }
+
+  /**
+   * Get everything a share token resolves to; single tracks come back as a one-track collection.
+   * Password-protected shares need the `access` token from unlockShare; per-listener limits
+   * are reported for the signed-in user or, failing that, the given device.
+   */
+  async getSharedCollection(
+    token: string,
+    { access, device_id }: GetSharedCollectionRequest = {},
+    options?: RequestOptions
+  ): Promise<SharedCollection> {
+    const query = new URLSearchParams();
+    if (access) query.set('access', access);
+    if (device_id) query.set('device_id', device_id);
+    const params = query.toString() ? `?${query.toString()}` : '';
+    const data: SharedResponse = await this.request(`/share/${encodeURIComponent(token)}${params}`, 'get shared collection', sharedResponseSchema, options);
+    if (!('tracks' in data)) {
+      const { comment_policy, expires_at, ...track } = data;
+      return {
+        id: data.id,
+        token,
+        name: data.name,
+        type: 'track',
+        authors: data.authors,
+        cover: data.cover,
+        comment_policy,
+        expires_at,
+        tracks: [{ ...track, token: data.token || token }],
+      };
     }
-    
-    return response.json();
+
+    return {
+      ...data,
+      token,
+      // Every track plays (and is limited) through the collection's token
+      tracks: data.tracks.map((track) => ({ ...track, token: track.token || token })),
+    };
+  }
+
+  /**
+   * Trade a share's password for an access token
+   */
+  async unlockShare({ token, password }: UnlockShareRequest, options?: RequestOptions): Promise<ShareAccess> {
+    return this.request(`/share/${encodeURIComponent(token)}/unlock`, 'unlock share', shareAccessSchema, { ...options, method: 'POST', body: { password } });
   }
 
   /**
    * Update track play count
    */
-  async updateTrackPlay({ id, anonymous = true, token }: UpdateTrackPlayRequest): Promise<UpdateTrackPlayResponse> {
-    const url = `${this.baseUrl}/tracks/${id}/play`;
-    const body: any = { anonymous };
+  async updateTrackPlay({ id, anonymous = true, token, device_id }: UpdateTrackPlayRequest, options?: RequestOptions): Promise<UpdateTrackPlayResponse> {
+    const body: { anonymous: boolean; token?: string; device_id?: string } = { anonymous };
     
     if (token) {
       body.token = token;
     }
+    if (device_id) {
+      body.device_id = device_id;
+    }
+
+    return this.request(`/tracks/${encodeURIComponent(id)}/play`, 'update play count', updateTrackPlayResponseSchema, { ...options, method: 'POST', body });
+  }
 
-    const response = await fetch(url, {
+  /**
+   * Open a play session; the server decides when it counts as a play
+   */
+  async startPlaySession({ id, token, anonymous = true, access, device_id }: StartPlaySessionRequest, options?: RequestOptions): Promise<PlaySession> {
+    return this.request(`/tracks/${encodeURIComponent(id)}/sessions`, 'start play session', playSessionSchema, {
+      ...options,
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
+      body: { anonymous, token, access, device_id },
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to update play count: ${response.status}`);
-    }
+  /**
+   * Report playback position for a play session
+   */
+  async sendPlayHeartbeat({ session_id, ...body }: PlayHeartbeatRequest, options?: RequestOptions): Promise<PlayHeartbeatResponse> {
+    return this.request(`/sessions/${session_id}/heartbeat`, 'send play heartbeat', heartbeatResponseSchema, { ...options, method: 'POST', body });
+  }
+
+  /**
+   * Ask the track's owner for more plays on a share that has used up its limit
+   */
+  async requestMorePlays({ id, ...body }: CreatePlayRequestRequest, options?: RequestOptions): Promise<PlayRequest> {
+    return this.request(`/tracks/${encodeURIComponent(id)}/play-requests`, 'request more plays', playRequestSchema, { ...options, method: 'POST', body });
+  }
+
+  /**
+   * Check whether the owner has answered a play request
+   */
+  async getPlayRequest(requestId: string, options?: RequestOptions): Promise<PlayRequest> {
+    return this.request(`/play-requests/${encodeURIComponent(requestId)}`, 'get play request', playRequestSchema, options);
+  }
+
+  /**
+   * List a track's comments, oldest first
+   */
+  async getComments({ id, token, access }: GetCommentsRequest, options?: RequestOptions): Promise<TrackComment[]> {
+    const query = new URLSearchParams();
+    if (token) query.set('token', token);
+    if (access) query.set('access', access);
+    const params = query.toString() ? `?${query.toString()}` : '';
+    return this.request(`/tracks/${encodeURIComponent(id)}/comments${params}`, 'get comments', commentListSchema, options);
+  }
+
+  /**
+   * Post a comment at a position in the track
+   */
+  async postComment({ id, ...body }: PostCommentRequest, options?: RequestOptions): Promise<TrackComment> {
+    return this.request(`/tracks/${encodeURIComponent(id)}/comments`, 'post comment', commentSchema, { ...options, method: 'POST', body });
+  }
+
+  /**
+   * Exchange credentials for a session
+   */
+  async login(credentials: LoginRequest, options?: RequestOptions): Promise<AuthSession> {
+    return this.request('/auth/login', 'sign in', authSessionSchema, { ...options, method: 'POST', body: credentials });
+  }
+
+  /**
+   * Where listening analytics are ingested; lib/analytics beacons straight to it on unload
+   */
+  get analyticsUrl(): string {
+    return `${this.baseUrl}/analytics/events`;
+  }
+
+  /**
+   * Ingest a batch of listening events (see lib/analytics)
+   */
+  async sendListeningEvents(batch: ListeningEventBatch, options?: RequestOptions): Promise<void> {
+    return this.request('/analytics/events', 'send listening events', noContentSchema, { ...options, method: 'POST', body: batch });
+  }
+
+  /**
+   * End the session this client makes requests with
+   */
+  async logout(options?: RequestOptions): Promise<void> {
+    return this.request('/auth/logout', 'sign out', noContentSchema, { ...options, method: 'POST', body: {} });
+  }
+
+  /**
+   * The signed-in user; throws UnauthorizedError without a valid session
+   */
+  async getCurrentUser(options?: RequestOptions): Promise<ChestUser> {
+    return this.request('/me', 'get current user', userSchema, options);
+  }
+
+  /**
+   * The share links the signed-in user has created, newest first
+   */
+  async getMyShares(options?: RequestOptions): Promise<ShareLink[]> {
+    return this.request('/me/shares', 'get shares', shareLinkListSchema, options);
+  }
 
-    return response.json();
+  /**
+   * Create a share link for one of the signed-in user's tracks
+   */
+  async createShare(request: CreateShareRequest, options?: RequestOptions): Promise<ShareLink> {
+    return this.request('/shares', 'create share', shareLinkSchema, { ...options, method: 'POST', body: request });
+  }
+
+  /**
+   * Daily plays and listener drop-off for one of the user's share links
+   */
+  async getShareStats(token: string, options?: RequestOptions): Promise<ShareStats> {
+    return this.request(`/shares/${encodeURIComponent(token)}/stats`, 'get share stats', shareStatsSchema, options);
+  }
+
+  /**
+   * Change a share link's play limit; null removes it
+   */
+  async updateShareLimit({ token, play_limit }: UpdateShareRequest, options?: RequestOptions): Promise<ShareLink> {
+    return this.request(`/shares/${encodeURIComponent(token)}`, 'update share', shareLinkSchema, { ...options, method: 'PATCH', body: { play_limit } });
+  }
+
+  /**
+   * Stop a share link from working, for good
+   */
+  async revokeShare(token: string, options?: RequestOptions): Promise<void> {
+    return this.request(`/shares/${encodeURIComponent(token)}`, 'revoke share', noContentSchema, { ...options, method: 'DELETE' });
+  }
+
+  /**
+   * Swap a share link's token for a new one; the old link stops working, plays and limits carry over
+   */
+  async regenerateShare(token: string, options?: RequestOptions): Promise<ShareLink> {
+    return this.request(`/shares/${encodeURIComponent(token)}/regenerate`, 'regenerate share', shareLinkSchema, { ...options, method: 'POST', body: {} });
   }
 
   /**
@@ -88,17 +446,19 @@ class ChestAPIClient {
   generateTrackMeta(track: ChestTrack): TrackMeta {
     const title = `${track.name} - ${track.authors?.join(', ') || 'Unknown Artist'}`;
     const description = `Listen to ${track.name} by ${track.authors?.join(', ') || 'Unknown Artist'} on Chest Music`;
+    // Rendered social card with title, artist and remaining plays instead of the bare cover
+    const image = socialCardUrl(track);
     
     return {
       title,
       description,
       ogTitle: title,
       ogDescription: description,
-      ogImage: track.cover || 'https://cdn.chestmusic.com/cover-default.jpg',
+      ogImage: image,
       twitterCard: 'summary_large_image',
       twitterTitle: title,
       twitterDescription: description,
-      twitterImage: track.cover || 'https://cdn.chestmusic.com/cover-default.jpg',
+      twitterImage: image,
     };
   }
 }
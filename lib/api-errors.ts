@@ -0,0 +1,203 @@
+/**
+ * API errors
+ *
+ * Every failed ChestAPIClient call throws one of these, picked from the
+ * response status and the `code` in the error body, so callers can tell an
+ * expired link from a flaky connection with `instanceof` or by `code`.
+ * Codes survive serialization (getServerSideProps props), classes don't.
+ */
+
+export type ApiErrorCode =
+  | 'not_found'
+  | 'expired'
+  | 'password_required'
+  | 'limit_reached'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'network'
+  | 'server'
+  | 'invalid_response'
+  | 'cancelled'
+  | 'unknown';
+
+// Error bodies look like { error: { code, message } } or { code, message }
+interface ApiErrorBody {
+  code?: string;
+  message?: string;
+  expired_at?: string;
+  plays?: number;
+  play_limit?: number | null;
+}
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode = 'unknown';
+  readonly status?: number;
+  readonly serverMessage?: string;
+
+  constructor(message: string, status?: number, serverMessage?: string) {
+    super(message);
+    // Keeps instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = status;
+    this.serverMessage = serverMessage;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  readonly code = 'not_found';
+}
+
+export class ExpiredError extends ApiError {
+  readonly code = 'expired';
+  expiredAt?: string;
+}
+
+// The share is password protected; `invalidPassword` when a wrong one was sent
+export class PasswordRequiredError extends ApiError {
+  readonly code = 'password_required';
+  invalidPassword = false;
+}
+
+export class LimitReachedError extends ApiError {
+  readonly code = 'limit_reached';
+  plays?: number;
+  playLimit?: number | null;
+}
+
+export class UnauthorizedError extends ApiError {
+  readonly code = 'unauthorized';
+}
+
+export class RateLimitedError extends ApiError {
+  readonly code = 'rate_limited';
+  retryAfter?: number; // Seconds, from the Retry-After header
+}
+
+// No response at all: offline, DNS, CORS or a timeout
+export class NetworkError extends ApiError {
+  readonly code = 'network';
+  timedOut = false;
+}
+
+export class ServerError extends ApiError {
+  readonly code = 'server';
+}
+
+// The API answered, but not in a shape we understand (see lib/api-schema)
+export class ValidationError extends ApiError {
+  readonly code = 'invalid_response';
+  issues: string[] = [];
+}
+
+// The caller aborted the request; not a failure worth showing
+export class CancelledError extends ApiError {
+  readonly code = 'cancelled';
+}
+
+async function readErrorBody(response: Response): Promise<ApiErrorBody> {
+  try {
+    const data = await response.json();
+    const body = data && typeof data.error === 'object' ? data.error : data;
+    return body && typeof body === 'object' ? body : {};
+  } catch (error) {
+    return {};
+  }
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+function rateLimitedError(response: Response, message: string, serverMessage?: string): RateLimitedError {
+  const error = new RateLimitedError(message, response.status, serverMessage);
+  error.retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+  return error;
+}
+
+/**
+ * Turn a failed response into the matching ApiError. The body's code wins over
+ * the status, since the API answers both expired links and used-up limits with 403/410;
+ * only a response without a known code is classified by its status.
+ */
+export async function parseApiError(response: Response, action: string): Promise<ApiError> {
+  const { status } = response;
+  const body = await readErrorBody(response);
+  const message = `Failed to ${action}: ${status}`;
+  const serverMessage = typeof body.message === 'string' ? body.message : undefined;
+
+  switch (body.code) {
+    case 'expired': {
+      const error = new ExpiredError(message, status, serverMessage);
+      error.expiredAt = body.expired_at;
+      return error;
+    }
+    case 'password_required':
+    case 'invalid_password': {
+      const error = new PasswordRequiredError(message, status, serverMessage);
+      error.invalidPassword = body.code === 'invalid_password';
+      return error;
+    }
+    case 'limit_reached': {
+      const error = new LimitReachedError(message, status, serverMessage);
+      error.plays = body.plays;
+      error.playLimit = body.play_limit;
+      return error;
+    }
+    case 'not_found':
+      return new NotFoundError(message, status, serverMessage);
+    case 'unauthorized':
+      return new UnauthorizedError(message, status, serverMessage);
+    case 'rate_limited':
+      return rateLimitedError(response, message, serverMessage);
+    case 'upstream_error': // This site's share relay couldn't reach the API
+      return new ServerError(message, status, serverMessage);
+  }
+
+  if (status === 410) {
+    const error = new ExpiredError(message, status, serverMessage);
+    error.expiredAt = body.expired_at;
+    return error;
+  }
+  if (status === 404) return new NotFoundError(message, status, serverMessage);
+  if (status === 401 || status === 403) return new UnauthorizedError(message, status, serverMessage);
+  if (status === 429) return rateLimitedError(response, message, serverMessage);
+  if (status >= 500) return new ServerError(message, status, serverMessage);
+
+  return new ApiError(message, status, serverMessage);
+}
+
+/**
+ * The error code of anything a request can throw, for props and state
+ */
+export function getApiErrorCode(error: unknown): ApiErrorCode {
+  return error instanceof ApiError ? error.code : 'unknown';
+}
+
+export function isCancelled(error: unknown): boolean {
+  return error instanceof CancelledError;
+}
+
+// What listeners see for each failure
+const ERROR_MESSAGES: Record<ApiErrorCode, { title: string; message: string }> = {
+  not_found: { title: 'Track not found', message: 'This link doesn\'t point to anything. Check that it was copied completely.' },
+  expired: { title: 'Link expired', message: 'This share link has expired. Ask the artist for a new one.' },
+  password_required: { title: 'Protected link', message: 'This link is password protected.' },
+  limit_reached: { title: 'Play limit reached', message: 'This link has used up all of its plays.' },
+  unauthorized: { title: 'Not available', message: 'You don\'t have access to this link.' },
+  rate_limited: { title: 'Too many requests', message: 'Please wait a moment and try again.' },
+  network: { title: 'Connection problem', message: 'We couldn\'t reach Chest Music. Check your connection and try again.' },
+  server: { title: 'Something went wrong', message: 'Chest Music is having trouble right now. Please try again later.' },
+  invalid_response: { title: 'Something went wrong', message: 'Chest Music sent something we couldn\'t read. Please try again later.' },
+  cancelled: { title: 'Request cancelled', message: 'The request was cancelled.' },
+  unknown: { title: 'Something went wrong', message: 'Failed to load track. Please try again later.' },
+};
+
+export function describeApiError(code: ApiErrorCode = 'unknown'): { title: string; message: string } {
+  return ERROR_MESSAGES[code] || ERROR_MESSAGES.unknown;
+}
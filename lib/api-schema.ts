@@ -0,0 +1,419 @@
+/**
+ * API response schemas
+ *
+ * Hand-written checks for every Chest API payload, run at the ChestAPIClient
+ * boundary. Known variant shapes are normalized on the way in (a TrackSource
+ * with `url`/`cover_url` becomes a ChestTrack with `audio`/`cover`). Missing
+ * or mistyped required fields fail with a ValidationError listing every
+ * problem; malformed optional fields are dropped with a warning instead.
+ */
+
+import {
+  AuthSession,
+  ChestTrack,
+  ChestUser,
+  CommentPolicy,
+  GetTrackSourceResponse,
+  PlayHeartbeatResponse,
+  PlayLimitMode,
+  PlayRequest,
+  PlayRequestStatus,
+  PlaySession,
+  ShareAccess,
+  ShareDailyPlays,
+  ShareDropoffPoint,
+  ShareLink,
+  ShareStats,
+  SharedCollection,
+  TrackComment,
+  UpdateTrackPlayResponse,
+} from '../types';
+import { ValidationError } from './api-errors';
+
+// Problems found while reading one payload; `errors` fail it, `warnings` are only logged
+interface Issues {
+  errors: string[];
+  warnings: string[];
+}
+
+export type Schema<T> = (data: unknown, path: string, issues: Issues) => T;
+
+// A shared link answers with either a single track or a whole collection
+export type SharedResponse =
+  | (ChestTrack & Pick<SharedCollection, 'comment_policy' | 'expires_at'>)
+  | Omit<SharedCollection, 'token'>;
+
+const COMMENT_POLICIES: CommentPolicy[] = ['disabled', 'authenticated', 'anonymous'];
+const COLLECTION_TYPES: SharedCollection['type'][] = ['track', 'playlist', 'album'];
+const PLAY_REQUEST_STATUSES: PlayRequestStatus[] = ['pending', 'approved', 'denied'];
+const PLAY_LIMIT_MODES: PlayLimitMode[] = ['link', 'listener'];
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Reads fields off an untyped object, recording every problem rather than
+ * stopping at the first. Each read takes the field's name, or a list of names
+ * the API has used for it over time (first one present wins).
+ */
+class FieldReader {
+  constructor(
+    private data: Record<string, unknown>,
+    private path: string,
+    private issues: Issues
+  ) {}
+
+  has(key: string): boolean {
+    return this.data[key] !== undefined;
+  }
+
+  private find(keys: string | string[]): [string, unknown] {
+    const names = Array.isArray(keys) ? keys : [keys];
+    const key = names.find((name) => this.data[name] !== undefined && this.data[name] !== null) || names[0];
+    return [key, this.data[key]];
+  }
+
+  private problem(required: boolean, key: string, expected: string, value: unknown): undefined {
+    const message = `${this.path}.${key}: expected ${expected}, got ${describe(value)}`;
+    (required ? this.issues.errors : this.issues.warnings).push(message);
+    return undefined;
+  }
+
+  string(keys: string | string[]): string;
+  string(keys: string | string[], optional: true): string | undefined;
+  string(keys: string | string[], optional = false): string | undefined {
+    const [key, value] = this.find(keys);
+    if (typeof value === 'string') return value;
+    if (value === undefined || value === null) {
+      return optional ? undefined : this.problem(true, key, 'string', value);
+    }
+    return this.problem(!optional, key, 'string', value);
+  }
+
+  // Ids have been numbers in older API versions
+  id(keys: string | string[] = 'id'): string {
+    const [key, value] = this.find(keys);
+    if (typeof value === 'string' && value) return value;
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    this.problem(true, key, 'id', value);
+    return '';
+  }
+
+  number(keys: string | string[]): number;
+  number(keys: string | string[], optional: true): number | undefined;
+  number(keys: string | string[], optional = false): number | undefined {
+    const [key, value] = this.find(keys);
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (value === undefined || value === null) {
+      return optional ? undefined : this.problem(true, key, 'number', value);
+    }
+    return this.problem(!optional, key, 'number', value);
+  }
+
+  boolean(keys: string | string[]): boolean;
+  boolean(keys: string | string[], optional: true): boolean | undefined;
+  boolean(keys: string | string[], optional = false): boolean | undefined {
+    const [key, value] = this.find(keys);
+    if (typeof value === 'boolean') return value;
+    if (value === undefined || value === null) {
+      return optional ? undefined : this.problem(true, key, 'boolean', value);
+    }
+    return this.problem(!optional, key, 'boolean', value);
+  }
+
+  // Optional limits come back as null when there is none
+  nullableNumber(keys: string | string[]): number | null | undefined {
+    const [, value] = this.find(keys);
+    return value === null ? null : this.number(keys, true);
+  }
+
+  oneOf<T extends string>(keys: string | string[], allowed: T[]): T;
+  oneOf<T extends string>(keys: string | string[], allowed: T[], optional: true): T | undefined;
+  oneOf<T extends string>(keys: string | string[], allowed: T[], optional = false): T | undefined {
+    const [key, value] = this.find(keys);
+    if (allowed.indexOf(value as T) !== -1) return value as T;
+    if (optional && (value === undefined || value === null)) return undefined;
+    return this.problem(!optional, key, allowed.join(' | '), value);
+  }
+
+  stringArray(keys: string | string[]): string[] | undefined {
+    const [key, value] = this.find(keys);
+    if (value === undefined || value === null) return undefined;
+    // A single author sometimes comes back as a plain string
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return value;
+    return this.problem(false, key, 'string[]', value);
+  }
+
+  numberArray(keys: string | string[]): number[] | undefined {
+    const [key, value] = this.find(keys);
+    if (value === undefined || value === null) return undefined;
+    if (Array.isArray(value) && value.every((item) => typeof item === 'number' && Number.isFinite(item))) return value;
+    return this.problem(false, key, 'number[]', value);
+  }
+
+  object<T>(key: string, schema: Schema<T>): T {
+    return schema(this.data[key], `${this.path}.${key}`, this.issues);
+  }
+
+  array<T>(key: string, schema: Schema<T>): T[] {
+    const value = this.data[key];
+    if (!Array.isArray(value)) {
+      this.problem(true, key, 'array', value);
+      return [];
+    }
+    return value.map((item, index) => schema(item, `${this.path}.${key}[${index}]`, this.issues));
+  }
+}
+
+function fields(data: unknown, path: string, issues: Issues): FieldReader {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    issues.errors.push(`${path}: expected object, got ${describe(data)}`);
+    return new FieldReader({}, path, { errors: [], warnings: [] });
+  }
+  return new FieldReader(data as Record<string, unknown>, path, issues);
+}
+
+// Drops undefined keys so normalized objects stay serializable as page props
+function compact<T extends object>(value: T): T {
+  Object.keys(value).forEach((key) => {
+    if ((value as Record<string, unknown>)[key] === undefined) {
+      delete (value as Record<string, unknown>)[key];
+    }
+  });
+  return value;
+}
+
+function readTrack(track: FieldReader): ChestTrack {
+  return compact({
+    id: track.id(),
+    name: track.string(['name', 'title']),
+    authors: track.stringArray(['authors', 'author', 'artist']),
+    cover: track.string(['cover', 'cover_url'], true),
+    audio: track.string(['audio', 'url', 'audio_url'], true),
+    type: track.string('type', true),
+    plays: track.number('plays', true),
+    play_limit: track.number('play_limit', true),
+    limit_mode: track.oneOf('limit_mode', PLAY_LIMIT_MODES, true),
+    listener_plays: track.number('listener_plays', true),
+    token: track.string('token', true),
+    peaks: track.numberArray('peaks'),
+    peaks_url: track.string('peaks_url', true),
+    owner_id: track.has('owner_id') ? track.id('owner_id') : undefined,
+    allow_download: track.boolean('allow_download', true),
+  });
+}
+
+/**
+ * A track, from a ChestTrack or a TrackSource payload
+ */
+export const chestTrackSchema: Schema<ChestTrack> = (data, path, issues) => readTrack(fields(data, path, issues));
+
+export const sharedResponseSchema: Schema<SharedResponse> = (data, path, issues) => {
+  const shared = fields(data, path, issues);
+
+  if (!shared.has('tracks')) {
+    return compact({
+      ...readTrack(shared),
+      comment_policy: shared.oneOf('comment_policy', COMMENT_POLICIES, true),
+      expires_at: shared.string('expires_at', true),
+    });
+  }
+
+  return compact({
+    id: shared.id(),
+    name: shared.string(['name', 'title']),
+    type: shared.oneOf('type', COLLECTION_TYPES),
+    authors: shared.stringArray(['authors', 'author', 'artist']),
+    cover: shared.string(['cover', 'cover_url'], true),
+    comment_policy: shared.oneOf('comment_policy', COMMENT_POLICIES, true),
+    expires_at: shared.string('expires_at', true),
+    tracks: shared.array('tracks', chestTrackSchema),
+  });
+};
+
+export const shareAccessSchema: Schema<ShareAccess> = (data, path, issues) => {
+  const access = fields(data, path, issues);
+  return compact({
+    access_token: access.string(['access_token', 'token']),
+    expires_at: access.string('expires_at', true),
+  });
+};
+
+export const trackSourceResponseSchema: Schema<GetTrackSourceResponse> = (data, path, issues) => {
+  const source = fields(data, path, issues);
+  return compact({
+    url: source.string(['url', 'audio']),
+    expires_at: source.string('expires_at', true),
+  });
+};
+
+export const updateTrackPlayResponseSchema: Schema<UpdateTrackPlayResponse> = (data, path, issues) => {
+  const result = fields(data, path, issues);
+  return compact({
+    success: result.boolean('success'),
+    plays: result.number('plays', true),
+  });
+};
+
+export const playSessionSchema: Schema<PlaySession> = (data, path, issues) => {
+  const session = fields(data, path, issues);
+  return compact({
+    session_id: session.id('session_id'),
+    signature: session.string('signature'),
+    heartbeat_interval: session.number('heartbeat_interval'),
+    expires_at: session.string('expires_at', true),
+    plays: session.number('plays'),
+    play_limit: session.nullableNumber('play_limit'),
+    limit_reached: session.boolean('limit_reached'),
+  });
+};
+
+export const heartbeatResponseSchema: Schema<PlayHeartbeatResponse> = (data, path, issues) => {
+  const result = fields(data, path, issues);
+  return compact({
+    counted: result.boolean('counted'),
+    plays: result.number('plays'),
+    play_limit: result.nullableNumber('play_limit'),
+    limit_reached: result.boolean('limit_reached'),
+    signature: result.string('signature', true),
+  });
+};
+
+export const playRequestSchema: Schema<PlayRequest> = (data, path, issues) => {
+  const request = fields(data, path, issues);
+  return compact({
+    id: request.id(),
+    track_id: request.id('track_id'),
+    status: request.oneOf('status', PLAY_REQUEST_STATUSES),
+    play_limit: request.nullableNumber('play_limit'),
+    plays: request.number('plays', true),
+    created_at: request.string('created_at'),
+  });
+};
+
+export const commentSchema: Schema<TrackComment> = (data, path, issues) => {
+  const comment = fields(data, path, issues);
+  return compact({
+    id: comment.id(),
+    track_id: comment.id('track_id'),
+    body: comment.string('body'),
+    position: comment.number('position'),
+    author_name: comment.string('author_name'),
+    anonymous: comment.boolean('anonymous', true),
+    created_at: comment.string('created_at'),
+  });
+};
+
+export const commentListSchema: Schema<TrackComment[]> = (data, path, issues) => {
+  if (!Array.isArray(data)) {
+    issues.errors.push(`${path}: expected array, got ${describe(data)}`);
+    return [];
+  }
+  return data.map((item, index) => commentSchema(item, `${path}[${index}]`, issues));
+};
+
+export const userSchema: Schema<ChestUser> = (data, path, issues) => {
+  const user = fields(data, path, issues);
+  return compact({
+    id: user.id(),
+    name: user.string(['name', 'display_name']),
+    email: user.string('email', true),
+    avatar: user.string(['avatar', 'avatar_url'], true),
+  });
+};
+
+export const authSessionSchema: Schema<AuthSession> = (data, path, issues) => {
+  const session = fields(data, path, issues);
+  return compact({
+    token: session.string(['token', 'access_token']),
+    expires_at: session.string('expires_at', true),
+    user: session.object('user', userSchema),
+  });
+};
+
+export const shareLinkSchema: Schema<ShareLink> = (data, path, issues) => {
+  const share = fields(data, path, issues);
+  return compact({
+    token: share.string('token'),
+    name: share.string(['name', 'title']),
+    type: share.oneOf('type', COLLECTION_TYPES),
+    cover: share.string(['cover', 'cover_url'], true),
+    plays: share.number('plays'),
+    play_limit: share.nullableNumber('play_limit') ?? null,
+    limit_mode: share.oneOf('limit_mode', PLAY_LIMIT_MODES, true),
+    created_at: share.string('created_at'),
+    last_played_at: share.string('last_played_at', true),
+    expires_at: share.string('expires_at', true),
+    password_protected: share.boolean('password_protected', true),
+    allow_download: share.boolean('allow_download', true),
+  });
+};
+
+export const shareLinkListSchema: Schema<ShareLink[]> = (data, path, issues) => {
+  if (!Array.isArray(data)) {
+    issues.errors.push(`${path}: expected array, got ${describe(data)}`);
+    return [];
+  }
+  return data.map((item, index) => shareLinkSchema(item, `${path}[${index}]`, issues));
+};
+
+const dailyPlaysSchema: Schema<ShareDailyPlays> = (data, path, issues) => {
+  const day = fields(data, path, issues);
+  return {
+    date: day.string('date'),
+    plays: day.number('plays'),
+  };
+};
+
+const dropoffPointSchema: Schema<ShareDropoffPoint> = (data, path, issues) => {
+  const point = fields(data, path, issues);
+  return {
+    position: point.number('position'),
+    listeners: point.number('listeners'),
+  };
+};
+
+export const shareStatsSchema: Schema<ShareStats> = (data, path, issues) => {
+  const stats = fields(data, path, issues);
+  return {
+    token: stats.string('token'),
+    daily_plays: stats.array('daily_plays', dailyPlaysSchema),
+    // Older stats have no drop-off data yet
+    dropoff: stats.has('dropoff') ? stats.array('dropoff', dropoffPointSchema) : [],
+  };
+};
+
+// Endpoints that answer 204, or with a body nothing reads
+export const noContentSchema: Schema<void> = () => undefined;
+
+// Enough of the list to act on without flooding the logs
+const MAX_REPORTED_ISSUES = 5;
+
+/**
+ * Check a payload against a schema and return its normalized form. Throws (and
+ * logs) a ValidationError naming every failing field; dropped optional fields are logged too.
+ */
+export function validate<T>(schema: Schema<T>, data: unknown, action: string): T {
+  const issues: Issues = { errors: [], warnings: [] };
+  const value = schema(data, 'response', issues);
+
+  if (issues.warnings.length) {
+    console.warn(`Ignored malformed fields while trying to ${action}:`, issues.warnings);
+  }
+
+  if (issues.errors.length) {
+    const shown = issues.errors.slice(0, MAX_REPORTED_ISSUES).join('; ');
+    const more = issues.errors.length > MAX_REPORTED_ISSUES ? ` (+${issues.errors.length - MAX_REPORTED_ISSUES} more)` : '';
+    const error = new ValidationError(`Failed to ${action}: invalid response (${shown}${more})`);
+    error.issues = issues.errors;
+    // Callers often fall back quietly; a changed API shape must still be noticed
+    console.error(error.message);
+    throw error;
+  }
+
+  return value;
+}
@@ -0,0 +1,120 @@
+/**
+ * AudioGraph
+ *
+ * Thin Web Audio wrapper used by the PlayerEngine for crossfades. Each media
+ * element is routed through its own GainNode so fades can be scheduled on the
+ * audio clock instead of JS timers. Elements must be CORS-enabled
+ * (crossOrigin set) or the graph outputs silence for them.
+ */
+
+type AudioContextConstructor = typeof AudioContext;
+
+function getAudioContextClass(): AudioContextConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const scope = window as typeof window & { webkitAudioContext?: AudioContextConstructor };
+  return scope.AudioContext || scope.webkitAudioContext || null;
+}
+
+export class AudioGraph {
+  private context: AudioContext;
+  private nodes = new Map<HTMLMediaElement, { source: MediaElementAudioSourceNode; gain: GainNode }>();
+
+  static isSupported(): boolean {
+    return getAudioContextClass() !== null;
+  }
+
+  constructor() {
+    const AudioContextClass = getAudioContextClass();
+    if (!AudioContextClass) {
+      throw new Error('Web Audio is not supported');
+    }
+    this.context = new AudioContextClass();
+  }
+
+  get currentTime(): number {
+    return this.context.currentTime;
+  }
+
+  // The clock only advances while the context runs
+  get isRunning(): boolean {
+    return this.context.state === 'running';
+  }
+
+  /**
+   * Contexts start suspended until a user gesture; call from play handlers
+   */
+  resume(): Promise<void> {
+    return this.context.state === 'suspended' ? this.context.resume() : Promise.resolve();
+  }
+
+  /**
+   * Route an element through the graph (once per element) and return its gain
+   */
+  connect(element: HTMLMediaElement, initialGain = 1): GainNode {
+    const existing = this.nodes.get(element);
+    if (existing) return existing.gain;
+
+    const source = this.context.createMediaElementSource(element);
+    const gain = this.context.createGain();
+    gain.gain.value = initialGain;
+    source.connect(gain).connect(this.context.destination);
+    this.nodes.set(element, { source, gain });
+    return gain;
+  }
+
+  disconnect(element: HTMLMediaElement): void {
+    const nodes = this.nodes.get(element);
+    if (!nodes) return;
+
+    nodes.source.disconnect();
+    nodes.gain.disconnect();
+    this.nodes.delete(element);
+  }
+
+  /**
+   * Ramp an element's gain to `to` over `duration` seconds, starting `delay` seconds from now
+   */
+  fade(element: HTMLMediaElement, to: number, duration: number, delay = 0): void {
+    const gain = this.nodes.get(element)?.gain;
+    if (!gain) return;
+
+    const start = this.context.currentTime + delay;
+    gain.gain.cancelScheduledValues(start);
+    gain.gain.setValueAtTime(gain.gain.value, start);
+    gain.gain.linearRampToValueAtTime(to, start + Math.max(duration, 0.005));
+  }
+
+  /**
+   * Call back `delay` seconds from now by the audio clock, which keeps time where
+   * timers drift or get throttled (background tabs). Returns a cancel function.
+   */
+  schedule(delay: number, callback: () => void): () => void {
+    // A silent source whose scheduled stop is the alarm
+    const clock = this.context.createConstantSource();
+    clock.offset.value = 0;
+    clock.connect(this.context.destination);
+    clock.onended = () => {
+      clock.disconnect();
+      callback();
+    };
+    clock.start();
+    clock.stop(this.context.currentTime + Math.max(delay, 0));
+
+    return () => {
+      clock.onended = null;
+      clock.stop();
+      clock.disconnect();
+    };
+  }
+
+  /**
+   * Jump an element's gain immediately, dropping any scheduled fade
+   */
+  setGain(element: HTMLMediaElement, value: number): void {
+    const gain = this.nodes.get(element)?.gain;
+    if (!gain) return;
+
+    gain.gain.cancelScheduledValues(this.context.currentTime);
+    gain.gain.value = value;
+  }
+}
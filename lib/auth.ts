@@ -0,0 +1,199 @@
+/**
+ * Auth
+ *
+ * Sign-in keeps the API's session token in an httpOnly cookie on this site.
+ * Server-side code (getServerSideProps, API routes) reads it back and talks to
+ * the API with it as a bearer token; in the browser the token is out of reach,
+ * so signed-in requests go out with credentials and the API reads the same
+ * cookie (SESSION_COOKIE_DOMAIN must then cover the API's host, e.g.
+ * .chestmusic.com). A bearer Authorization header on an incoming request is
+ * honoured too, for scripted clients.
+ *
+ * Unlocked password-protected shares are remembered the same way, with one
+ * cookie per share token holding its access token. It stays on the server too:
+ * the share page's own calls go through the /api/share/[token] relay, which
+ * adds it (see shareClientFor).
+ */
+
+import type { IncomingMessage } from 'http';
+import ChestAPIClient, { apiClient } from './api-client';
+import { UnauthorizedError, isCancelled } from './api-errors';
+import { DEVICE_ID_COOKIE, isValidDeviceId } from './device-id';
+import { AuthSession, ChestTrack, ChestUser, ShareAccess } from '../types';
+
+export const SESSION_COOKIE = 'chest_session';
+const SHARE_ACCESS_COOKIE_PREFIX = 'chest_share_';
+
+// Used when the API doesn't say when the session ends
+const DEFAULT_SESSION_SECONDS = 30 * 24 * 60 * 60;
+
+type RequestWithCookies = IncomingMessage & { cookies?: Partial<Record<string, string>> };
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  (header || '').split(';').forEach((pair) => {
+    const index = pair.indexOf('=');
+    if (index === -1) return;
+    const name = pair.slice(0, index).trim();
+    try {
+      cookies[name] = decodeURIComponent(pair.slice(index + 1).trim());
+    } catch (error) {
+      // Malformed value; leave the cookie out
+    }
+  });
+  return cookies;
+}
+
+/**
+ * Whether a cookie-setting request came from this site's own pages. Cross-site
+ * forms can't send JSON without a CORS preflight, and browsers name the
+ * requesting site in Sec-Fetch-Site or Origin; scripted clients send neither
+ * header and only need the JSON content type.
+ */
+export function isSameSiteJsonRequest(req: IncomingMessage): boolean {
+  const contentType = req.headers['content-type'] || '';
+  if (!contentType.toLowerCase().startsWith('application/json')) return false;
+
+  const fetchSite = req.headers['sec-fetch-site'];
+  if (fetchSite) return fetchSite === 'same-origin';
+
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The session token an incoming request carries, from its Authorization header or cookie
+ */
+export function getSessionToken(req: RequestWithCookies): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  return readCookie(req, SESSION_COOKIE);
+}
+
+function readCookie(req: RequestWithCookies, name: string): string | null {
+  const cookies = req.cookies || parseCookies(req.headers.cookie);
+  return cookies[name] || null;
+}
+
+function cookieAttributes(maxAge: number): string {
+  const attributes = ['Path=/', 'HttpOnly', 'SameSite=Lax', `Max-Age=${maxAge}`];
+  if (process.env.SESSION_COOKIE_DOMAIN) attributes.push(`Domain=${process.env.SESSION_COOKIE_DOMAIN}`);
+  if (process.env.NODE_ENV === 'production') attributes.push('Secure');
+  return attributes.join('; ');
+}
+
+// Cookies live as long as what they hold
+function maxAgeUntil(expiresAt: string | undefined): number {
+  const time = expiresAt ? Date.parse(expiresAt) : NaN;
+  return Number.isNaN(time) ? DEFAULT_SESSION_SECONDS : Math.max(0, Math.floor((time - Date.now()) / 1000));
+}
+
+/**
+ * Set-Cookie value that stores a fresh session
+ */
+export function sessionCookie(session: AuthSession): string {
+  return `${SESSION_COOKIE}=${encodeURIComponent(session.token)}; ${cookieAttributes(maxAgeUntil(session.expires_at))}`;
+}
+
+/**
+ * Set-Cookie value that signs the browser out
+ */
+export function clearedSessionCookie(): string {
+  return `${SESSION_COOKIE}=; ${cookieAttributes(0)}`;
+}
+
+/**
+ * Resolve who is making a server-side request. Returns the user (null when
+ * signed out or the session has lapsed) and a client that acts as them.
+ */
+export async function getViewer(req: RequestWithCookies): Promise<{ user: ChestUser | null; client: ChestAPIClient }> {
+  const token = getSessionToken(req);
+  if (!token) return { user: null, client: apiClient };
+
+  const client = apiClient.withAuth({ session: token });
+  try {
+    return { user: await client.getCurrentUser(), client };
+  } catch (error) {
+    if (!(error instanceof UnauthorizedError) && !isCancelled(error)) {
+      console.error('Failed to resolve session:', error);
+    }
+    // A dead session shouldn't keep the page from rendering for everyone else
+    return { user: null, client: apiClient };
+  }
+}
+
+function shareAccessCookieName(token: string): string {
+  return `${SHARE_ACCESS_COOKIE_PREFIX}${encodeURIComponent(token)}`;
+}
+
+/**
+ * The access token for a password-protected share this request has unlocked before
+ */
+export function getShareAccess(req: RequestWithCookies, token: string): string | null {
+  return readCookie(req, shareAccessCookieName(token));
+}
+
+/**
+ * Set-Cookie value that remembers an unlocked share
+ */
+export function shareAccessCookie(token: string, access: ShareAccess): string {
+  return `${shareAccessCookieName(token)}=${encodeURIComponent(access.access_token)}; ${cookieAttributes(maxAgeUntil(access.expires_at))}`;
+}
+
+/**
+ * The anonymous device id the browser set (see lib/device-id); absent on a first visit
+ */
+export function getRequestDeviceId(req: RequestWithCookies): string | null {
+  const id = readCookie(req, DEVICE_ID_COOKIE);
+  return isValidDeviceId(id) ? id : null;
+}
+
+let browserClient: ChestAPIClient | null = null;
+
+/**
+ * The client for browser-side requests: signed-in users send their session cookie along
+ */
+export function clientFor(user: ChestUser | null | undefined): ChestAPIClient {
+  if (!user) return apiClient;
+  if (!browserClient) browserClient = apiClient.withAuth({ credentials: 'include' });
+  return browserClient;
+}
+
+const shareClients: Record<string, ChestAPIClient> = {};
+
+/**
+ * Client for the calls a share page makes that need its access token: play
+ * sessions, comments, and play requests and their answers. They go to this
+ * site's relay, which adds the access cookie and the viewer's session before
+ * passing them on.
+ */
+export function shareClientFor(token: string): ChestAPIClient {
+  if (!shareClients[token]) {
+    shareClients[token] = new ChestAPIClient(`/api/share/${encodeURIComponent(token)}`);
+  }
+  return shareClients[token];
+}
+
+export function isOwner(track: Pick<ChestTrack, 'owner_id'> | undefined, user: ChestUser | null | undefined): boolean {
+  return !!user && !!track?.owner_id && track.owner_id === user.id;
+}
+
+/**
+ * Where to send someone after signing in: only paths on this site, never another origin
+ */
+export function safeRedirect(next: string | string[] | undefined, fallback = '/'): string {
+  const path = Array.isArray(next) ? next[0] : next;
+  return path && path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\') ? path : fallback;
+}
+
+export function loginUrl(next?: string): string {
+  return next ? `/login?next=${encodeURIComponent(next)}` : '/login';
+}
@@ -0,0 +1,82 @@
+/**
+ * Device id
+ *
+ * An anonymous, random id for this browser, so shares with per-listener play
+ * limits can count each listener separately without an account. It lives in
+ * localStorage and is mirrored into a (readable, non-httpOnly) cookie so
+ * server-side rendering can ask the API for this listener's counters too.
+ * Signed-in listeners are counted by account; the device id only matters
+ * while signed out.
+ */
+
+import { getLocalStorage } from './player-storage';
+
+export const DEVICE_ID_COOKIE = 'chest_device';
+const STORAGE_KEY = 'chest-player:device-id';
+const COOKIE_MAX_AGE_SECONDS = 400 * 24 * 60 * 60; // The longest browsers keep a cookie
+
+// Only ids we could have made are sent along
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+export function isValidDeviceId(value: string | null | undefined): value is string {
+  return !!value && DEVICE_ID_PATTERN.test(value);
+}
+
+function generateDeviceId(): string {
+  const cryptoApi = typeof window !== 'undefined' ? window.crypto : undefined;
+  if (cryptoApi && typeof cryptoApi.randomUUID === 'function') {
+    return cryptoApi.randomUUID();
+  }
+
+  const bytes = new Uint8Array(16);
+  if (cryptoApi) {
+    cryptoApi.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return Array.prototype.map.call(bytes, (byte: number) => (byte < 16 ? '0' : '') + byte.toString(16)).join('');
+}
+
+function readCookieValue(): string | null {
+  const prefix = `${DEVICE_ID_COOKIE}=`;
+  const pair = document.cookie.split(';').map((part) => part.trim()).find((part) => part.startsWith(prefix));
+  return pair ? pair.slice(prefix.length) : null;
+}
+
+function writeCookieValue(id: string): void {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${DEVICE_ID_COOKIE}=${id}; Path=/; SameSite=Lax; Max-Age=${COOKIE_MAX_AGE_SECONDS}${secure}`;
+}
+
+let cachedId: string | null = null;
+
+/**
+ * This browser's device id, created on first use. Undefined during SSR.
+ */
+export function getDeviceId(): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+  if (cachedId) return cachedId;
+
+  const storage = getLocalStorage();
+  let cookieId: string | null = null;
+  try {
+    cookieId = readCookieValue();
+  } catch (error) {
+    // Cookies blocked (sandboxed iframe); localStorage alone will do
+  }
+
+  const stored = storage?.getItem(STORAGE_KEY);
+  const id = [stored, cookieId].find(isValidDeviceId) || generateDeviceId();
+
+  if (stored !== id) storage?.setItem(STORAGE_KEY, id);
+  if (cookieId !== id) {
+    try {
+      writeCookieValue(id);
+    } catch (error) {
+      // Same as above
+    }
+  }
+
+  cachedId = id;
+  return id;
+}
@@ -0,0 +1,53 @@
+/**
+ * Offline audio
+ *
+ * Tracks of shares that allow downloads are kept by the service worker
+ * (public/sw.js) the first time they play, so replays don't re-stream the file
+ * and seeking works without a connection. The player points the audio element
+ * at /offline-audio/<token>/<track>: the worker answers from its cache with
+ * Range support, or, until it has a copy, fetches the signed source given as
+ * `src` and keeps a copy of the response as it plays.
+ */
+
+// Must match AUDIO_CACHE in public/sw.js
+const AUDIO_CACHE = 'chest-audio-v1';
+
+/**
+ * The worker-served URL of a track; without `source` it only resolves when the track is cached
+ */
+export function offlineAudioUrl(token: string, trackId: string, source?: string): string {
+  const path = `/offline-audio/${encodeURIComponent(token)}/${encodeURIComponent(trackId)}`;
+  return source ? `${path}?src=${encodeURIComponent(source)}` : path;
+}
+
+/**
+ * Whether a service worker controls this page, so offline audio URLs can be used at all
+ */
+export function isOfflineAudioSupported(): boolean {
+  return typeof window !== 'undefined'
+    && 'caches' in window
+    && !!navigator.serviceWorker?.controller;
+}
+
+export async function hasOfflineAudio(token: string, trackId: string): Promise<boolean> {
+  if (!isOfflineAudioSupported()) return false;
+  try {
+    const cache = await caches.open(AUDIO_CACHE);
+    return !!(await cache.match(offlineAudioUrl(token, trackId)));
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Drop a cached track, e.g. once its share can't be played anymore
+ */
+export async function removeOfflineAudio(token: string, trackId: string): Promise<void> {
+  if (typeof window === 'undefined' || !('caches' in window)) return;
+  try {
+    const cache = await caches.open(AUDIO_CACHE);
+    await cache.delete(offlineAudioUrl(token, trackId));
+  } catch (error) {
+    // Storage unavailable; nothing was cached then either
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Offline plays
+ *
+ * Plays of cached audio (see lib/offline-audio) started while the API can't be
+ * reached. They count against the share's limit locally right away and wait
+ * here, in localStorage, until the API is back; then they are sent through
+ * updateTrackPlay like any other play and the server's counters win again.
+ */
+
+import { UpdateTrackPlayRequest, UpdateTrackPlayResponse } from '../types';
+import ChestAPIClient from './api-client';
+import { LimitReachedError, NetworkError } from './api-errors';
+import { getLocalStorage, KeyValueStorage } from './player-storage';
+
+export interface OfflinePlay extends UpdateTrackPlayRequest {
+  playedAt: number; // Epoch milliseconds
+}
+
+interface FlushCallbacks {
+  onCounted?: (play: OfflinePlay, result: UpdateTrackPlayResponse) => void;
+  onRefused?: (play: OfflinePlay, error: LimitReachedError) => void; // Somebody else used up the limit meanwhile
+}
+
+const STORAGE_KEY = 'chest-player:offline-plays';
+
+function load(storage: KeyValueStorage | null): OfflinePlay[] {
+  try {
+    const plays = JSON.parse(storage?.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(plays) ? plays.filter((play) => play && typeof play.id === 'string') : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+function save(storage: KeyValueStorage | null, plays: OfflinePlay[]): void {
+  if (!storage) return;
+  if (plays.length) {
+    storage.setItem(STORAGE_KEY, JSON.stringify(plays));
+  } else {
+    storage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function queueOfflinePlay(play: UpdateTrackPlayRequest, storage = getLocalStorage()): void {
+  save(storage, [...load(storage), { ...play, playedAt: Date.now() }]);
+}
+
+/**
+ * Plays of a track the server doesn't know about yet
+ */
+export function countOfflinePlays(trackId: string, token?: string, storage = getLocalStorage()): number {
+  return load(storage).filter((play) => play.id === trackId && play.token === token).length;
+}
+
+let isFlushing = false;
+
+/**
+ * Send queued plays in order. Each is taken off the queue before it is sent, so
+ * another tab flushing at the same time can't count it twice; a play that fails
+ * for lack of a connection goes back to the front and the rest wait for next time.
+ */
+export async function flushOfflinePlays(
+  client: ChestAPIClient,
+  { onCounted, onRefused }: FlushCallbacks = {},
+  storage = getLocalStorage()
+): Promise<void> {
+  if (isFlushing || !storage) return;
+  isFlushing = true;
+
+  try {
+    for (;;) {
+      const [play, ...rest] = load(storage);
+      if (!play) break;
+      save(storage, rest);
+
+      try {
+        const { playedAt, ...request } = play;
+        const result = await client.updateTrackPlay(request);
+        onCounted?.(play, result);
+      } catch (error) {
+        if (error instanceof NetworkError) {
+          save(storage, [play, ...load(storage)]);
+          break;
+        }
+        if (error instanceof LimitReachedError) {
+          onRefused?.(play, error);
+        } else {
+          // The link is gone or the play was rejected; retrying won't change that
+          console.error('Failed to send offline play:', error);
+        }
+      }
+    }
+  } finally {
+    isFlushing = false;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * PlayQueue
+ *
+ * Play order for the PlayerEngine, expressed as indices into its track list.
+ * Keeps the current track, the upcoming order (user-queued tracks first, then
+ * the rest of the list, shuffled once per toggle with Fisher–Yates) and a
+ * back-history stack so "previous" returns to what was actually heard.
+ */
+
+import { RepeatMode } from '../types';
+
+export class PlayQueue {
+  private trackCount = 0;
+  private current: number | null = null;
+  private upcoming: number[] = [];
+  private history: number[] = [];
+  // Leading entries of `upcoming` added through playNext/addToQueue
+  private queuedCount = 0;
+  private shuffled = false;
+
+  get currentIndex(): number | null {
+    return this.current;
+  }
+
+  get upNext(): number[] {
+    return this.upcoming.slice();
+  }
+
+  get isShuffled(): boolean {
+    return this.shuffled;
+  }
+
+  /**
+   * Start over with a new track list
+   */
+  reset(trackCount: number, startIndex = 0): void {
+    this.trackCount = trackCount;
+    this.current = trackCount ? Math.min(startIndex, trackCount - 1) : null;
+    this.history = [];
+    this.queuedCount = 0;
+    this.upcoming = this.contextOrder();
+  }
+
+  /**
+   * Advance to the next track; null when the queue is exhausted
+   */
+  next(repeatMode: RepeatMode): number | null {
+    if (!this.upcoming.length) {
+      if (repeatMode !== 'all' || !this.trackCount) return null;
+      // Start another pass over the whole list
+      this.upcoming = this.shuffled ? this.shuffle(this.allIndices()) : this.allIndices();
+    }
+
+    if (this.current !== null) {
+      this.history.push(this.current);
+    }
+    this.current = this.upcoming.shift() as number;
+    this.queuedCount = Math.max(0, this.queuedCount - 1);
+    return this.current;
+  }
+
+  /**
+   * The track `next` would advance to, when it is already known
+   */
+  peek(): number | null {
+    return this.upcoming.length ? this.upcoming[0] : null;
+  }
+
+  /**
+   * Go back to the track heard before; null when there is no history
+   */
+  prev(): number | null {
+    const previous = this.history.pop();
+    if (previous === undefined) return null;
+
+    if (this.current !== null) {
+      this.upcoming.unshift(this.current);
+      this.queuedCount += 1;
+    }
+    this.current = previous;
+    return this.current;
+  }
+
+  /**
+   * Jump straight to a track, e.g. from a tracklist
+   */
+  jumpTo(trackIndex: number): void {
+    if (trackIndex === this.current) return;
+
+    if (this.current !== null) {
+      this.history.push(this.current);
+    }
+    this.current = trackIndex;
+
+    const queued = this.upcoming.slice(0, this.queuedCount).filter((index) => index !== trackIndex);
+    this.queuedCount = queued.length;
+    this.upcoming = [...queued, ...this.contextOrder(queued)];
+  }
+
+  playNext(trackIndex: number): void {
+    this.upcoming.unshift(trackIndex);
+    this.queuedCount += 1;
+  }
+
+  addToQueue(trackIndex: number): void {
+    this.upcoming.splice(this.queuedCount, 0, trackIndex);
+    this.queuedCount += 1;
+  }
+
+  /**
+   * Remove an entry from the upcoming list by its position
+   */
+  remove(position: number): void {
+    if (position < 0 || position >= this.upcoming.length) return;
+
+    this.upcoming.splice(position, 1);
+    if (position < this.queuedCount) {
+      this.queuedCount -= 1;
+    }
+  }
+
+  /**
+   * Move an upcoming entry to another position
+   */
+  move(from: number, to: number): void {
+    if (from < 0 || from >= this.upcoming.length || to < 0 || to >= this.upcoming.length) return;
+
+    const [trackIndex] = this.upcoming.splice(from, 1);
+    this.upcoming.splice(to, 0, trackIndex);
+
+    if (from < this.queuedCount && to >= this.queuedCount) {
+      this.queuedCount -= 1;
+    } else if (from >= this.queuedCount && to < this.queuedCount) {
+      this.queuedCount += 1;
+    }
+  }
+
+  /**
+   * Toggle shuffle; the shuffled order is computed once here, not per skip
+   */
+  setShuffled(shuffled: boolean): void {
+    this.shuffled = shuffled;
+    const queued = this.upcoming.slice(0, this.queuedCount);
+    this.upcoming = [...queued, ...this.contextOrder(queued)];
+  }
+
+  private allIndices(): number[] {
+    return Array.from({ length: this.trackCount }, (_, index) => index);
+  }
+
+  // Remaining list order after the current track, skipping tracks the user already queued
+  private contextOrder(exclude: number[] = []): number[] {
+    const skip = new Set(exclude);
+    if (this.current !== null) skip.add(this.current);
+
+    if (this.shuffled) {
+      return this.shuffle(this.allIndices().filter((index) => !skip.has(index)));
+    }
+
+    const start = this.current === null ? 0 : this.current + 1;
+    return this.allIndices().slice(start).filter((index) => !skip.has(index));
+  }
+
+  // Fisher–Yates
+  private shuffle(indices: number[]): number[] {
+    const result = indices.slice();
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+}
@@ -0,0 +1,929 @@
+/**
+ * PlayerEngine
+ *
+ * Headless audio engine behind PlayerBar. It owns the HTMLAudioElement, the
+ * track list and all playback rules (play gating, play counting, signed
+ * sources, the play queue and gapless/crossfade transitions), and exposes immutable PlayerState snapshots
+ * plus imperative commands. React components use it through `usePlayer`;
+ * nothing here depends on React or on any markup.
+ */
+
+import {
+  Track,
+  PlayerState,
+  PlayCountThreshold,
+  PlaybackProgress,
+  PlaybackStatus,
+  RepeatMode,
+  ResolvedSource,
+} from '../types';
+import { PlayQueue } from './play-queue';
+import { AudioGraph } from './audio-graph';
+
+export interface PlayerEngineOptions {
+  onBeforePlay?: (track: Track, trackIndex: number) => boolean | Promise<boolean>;
+  onPlayCounted?: (track: Track, trackIndex: number) => void;
+  playCountThreshold?: PlayCountThreshold;
+  onProgress?: (progress: PlaybackProgress) => void;
+  resolveSource?: (track: Track) => Promise<ResolvedSource>;
+  onTrackChange?: (trackIndex: number) => void;
+  gapless?: boolean; // Preload the next track and start it right at the boundary
+  crossfade?: number; // Seconds of overlap; needs Web Audio and CORS-enabled audio, else a plain switch
+}
+
+export interface PlayerEventMap {
+  play: { trackIndex: number; position: number };
+  pause: { trackIndex: number; position: number };
+  seek: { trackIndex: number; from: number; to: number };
+  ended: { trackIndex: number; duration: number };
+  waiting: { trackIndex: number; position: number };
+  playing: { trackIndex: number; position: number }; // Sound is actually coming out, e.g. after buffering
+  trackchange: { trackIndex: number; track: Track };
+  blocked: { trackIndex: number; track: Track };
+  playcounted: { trackIndex: number; track: Track };
+}
+
+type PlayerEventHandler<K extends keyof PlayerEventMap> = (event: PlayerEventMap[K]) => void;
+
+// Next track loaded on a second element, waiting for the current one to end. It is
+// preloaded as 'ready', passes the play guard close to the boundary ('admitted'),
+// and takes over once 'started'.
+interface Standby {
+  element: HTMLAudioElement;
+  trackIndex: number;
+  source: ResolvedSource | null;
+  status: 'loading' | 'ready' | 'admitting' | 'admitted' | 'blocked' | 'started';
+  admission?: Promise<boolean>;
+}
+
+export const INITIAL_PLAYER_STATE: PlayerState = {
+  isPlaying: false,
+  currentTime: 0,
+  duration: 0,
+  currentTrackIndex: 0,
+  volume: 1,
+  isMuted: false,
+  repeatMode: 'off',
+  isShuffled: false,
+  upNext: [],
+};
+
+const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+const DEFAULT_PLAY_COUNT_THRESHOLD: PlayCountThreshold = { seconds: 30, percent: 50 };
+
+// Refresh signed sources a little before they expire
+const SOURCE_EXPIRY_MARGIN_MS = 10_000;
+
+// "Previous" restarts the current track after this many seconds
+const RESTART_THRESHOLD_SECONDS = 3;
+
+// Start preparing the next track this long before the current one ends
+const PRELOAD_LEAD_SECONDS = 20;
+
+// timeupdate is too coarse for the boundary itself; closer than this the audio clock takes over
+const GAPLESS_LEAD_SECONDS = 0.5;
+
+// The play guard may open a server play session, so it is only asked this close to the
+// handoff, giving it time to answer without counting tracks the listener never reaches
+const ADMIT_LEAD_SECONDS = 3;
+
+// A millisecond of silence (8 kHz, 8-bit mono WAV), played to unlock the element from a tap
+const SILENT_AUDIO = 'data:audio/wav;base64,UklGRiwAAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQgAAACAgICAgICAgA==';
+
+export class PlayerEngine {
+  private audio: HTMLAudioElement | null = null;
+  private tracks: Track[] = [];
+  private queue = new PlayQueue();
+  private queueKey = '';
+  private state: PlayerState = INITIAL_PLAYER_STATE;
+  private options: PlayerEngineOptions;
+  private stateListeners = new Set<() => void>();
+  private handlers: { [K in keyof PlayerEventMap]?: Set<PlayerEventHandler<K>> } = {};
+
+  // Listen time accumulated for the current play, used to decide when it counts
+  private listened = 0;
+  private lastTick = 0;
+  private playCounted = false;
+
+  // Resolved source for the current track and refresh attempts since it last played;
+  // a stale source failed to load and is resolved again on the next attempt
+  private source: (ResolvedSource & { trackIndex: number; stale?: boolean }) | null = null;
+  private sourceRefreshes = 0;
+  private pendingSeek: number | null = null;
+  private endTime: number | null = null;
+
+  // Dual-buffer transitions
+  private standby: Standby | null = null;
+  private cancelTransition: (() => void) | null = null; // Pending switch to the standby element
+  private graph: AudioGraph | null = null;
+
+  // Whether the element has been played from a user gesture, which mobile browsers require once
+  private unlocked = false;
+
+  constructor(options: PlayerEngineOptions = {}) {
+    this.options = options;
+  }
+
+  // Arrow properties so they can be handed to useSyncExternalStore unbound
+  subscribe = (listener: () => void): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  getState = (): PlayerState => this.state;
+
+  get currentTrack(): Track | undefined {
+    return this.tracks[this.state.currentTrackIndex];
+  }
+
+  // URL the current track actually loaded from, signed sources included
+  get currentSrc(): string | undefined {
+    return this.audio?.currentSrc || undefined;
+  }
+
+  /**
+   * Listen to playback events; returns an unsubscribe function
+   */
+  on<K extends keyof PlayerEventMap>(type: K, handler: PlayerEventHandler<K>): () => void {
+    const handlers = (this.handlers[type] || new Set()) as Set<PlayerEventHandler<K>>;
+    this.handlers[type] = handlers as (typeof this.handlers)[K];
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  setOptions(options: PlayerEngineOptions): void {
+    this.options = options;
+  }
+
+  /**
+   * Replace the track list; an identical list (by id or url) keeps the current playback
+   */
+  setQueue(tracks: Track[], startIndex = 0): void {
+    const key = tracks.map((track) => track.id || track.url).join('|');
+    this.tracks = tracks;
+    if (key === this.queueKey) return;
+
+    this.queueKey = key;
+    this.queue.reset(tracks.length, startIndex);
+    this.syncQueue();
+    if (this.queue.currentIndex !== null) {
+      this.loadTrack(this.queue.currentIndex, false);
+    }
+  }
+
+  /**
+   * Start playback once the play guard and source resolution allow it
+   */
+  async play(): Promise<boolean> {
+    const audio = this.getAudio();
+    const track = this.currentTrack;
+    if (!audio || !track) return false;
+
+    const trackIndex = this.state.currentTrackIndex;
+    // Both have to happen before the first await, while the tap still counts. Transitions
+    // are timed by the audio clock, so its context is started here too.
+    const { gapless, crossfade } = this.options;
+    (gapless || crossfade ? this.getGraph() : this.graph)?.resume();
+    this.unlock(audio);
+    const allowed = this.options.onBeforePlay ? await this.options.onBeforePlay(track, trackIndex) : true;
+    if (!allowed) {
+      this.setState({ isPlaying: false });
+      this.emit('blocked', { trackIndex, track });
+      return false;
+    }
+
+    // The track may have changed while the guard or resolver was pending
+    if (!(await this.ensureSource()) || trackIndex !== this.state.currentTrackIndex) {
+      return false;
+    }
+
+    try {
+      await audio.play();
+      return true;
+    } catch (error) {
+      console.error(error);
+      return false;
+    }
+  }
+
+  pause(): void {
+    // Finish a running crossfade first so both elements don't keep going
+    if (this.standby?.status === 'started') {
+      this.completeTransition(this.standby);
+    }
+    this.audio?.pause();
+  }
+
+  toggle(): void {
+    if (this.state.isPlaying) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  seek(time: number): void {
+    const audio = this.getAudio();
+    if (!audio) return;
+
+    // Nothing loaded yet (signed sources resolve on play); apply once metadata arrives
+    if (!this.state.duration) {
+      this.pendingSeek = Math.max(0, time);
+      this.setState({ currentTime: this.pendingSeek });
+      return;
+    }
+
+    if (this.standby?.status === 'started' || this.cancelTransition) {
+      this.discardStandby();
+    }
+
+    const to = Math.max(0, this.state.duration ? Math.min(time, this.state.duration) : time);
+    const from = audio.currentTime;
+    audio.currentTime = to;
+    this.setState({ currentTime: to });
+    this.emit('seek', { trackIndex: this.state.currentTrackIndex, from, to });
+  }
+
+  /**
+   * Advance through the queue; at the end of the list only repeat 'all' wraps around
+   */
+  next(autoplay = this.state.isPlaying): void {
+    const trackIndex = this.queue.next(this.state.repeatMode);
+    this.syncQueue();
+    if (trackIndex !== null) {
+      this.loadTrack(trackIndex, autoplay);
+    }
+  }
+
+  prev(): void {
+    // Smart navigation: restart the track unless it has barely started
+    if ((this.audio?.currentTime || 0) > RESTART_THRESHOLD_SECONDS) {
+      this.seek(0);
+      return;
+    }
+
+    const trackIndex = this.queue.prev();
+    this.syncQueue();
+    if (trackIndex === null) {
+      this.seek(0);
+    } else {
+      this.loadTrack(trackIndex, this.state.isPlaying);
+    }
+  }
+
+  /**
+   * Jump to a track, keeping playback going if it already was (or when asked to)
+   */
+  skipTo(trackIndex: number, autoplay = this.state.isPlaying): void {
+    if (!this.tracks[trackIndex]) return;
+
+    if (trackIndex === this.state.currentTrackIndex) {
+      if (autoplay && !this.state.isPlaying) this.play();
+      return;
+    }
+
+    this.queue.jumpTo(trackIndex);
+    this.syncQueue();
+    this.loadTrack(trackIndex, autoplay);
+  }
+
+  playNext(trackIndex: number): void {
+    if (!this.tracks[trackIndex]) return;
+    this.queue.playNext(trackIndex);
+    this.syncQueue();
+  }
+
+  addToQueue(trackIndex: number): void {
+    if (!this.tracks[trackIndex]) return;
+    this.queue.addToQueue(trackIndex);
+    this.syncQueue();
+  }
+
+  /**
+   * Remove an up-next entry by its position in `upNext`
+   */
+  removeFromQueue(position: number): void {
+    this.queue.remove(position);
+    this.syncQueue();
+  }
+
+  moveInQueue(from: number, to: number): void {
+    this.queue.move(from, to);
+    this.syncQueue();
+  }
+
+  /**
+   * Pause the current track once it reaches `time` seconds (deep links to a section).
+   * Cleared when the track changes or the end is reached; null clears it.
+   */
+  setEndTime(time: number | null): void {
+    this.endTime = time !== null && time > 0 ? time : null;
+  }
+
+  setVolume(volume: number): void {
+    const clamped = Math.max(0, Math.min(1, volume));
+    this.setState({ volume: clamped, isMuted: clamped === 0 });
+    this.applyVolume();
+  }
+
+  toggleMute(): void {
+    this.setState({ isMuted: !this.state.isMuted });
+    this.applyVolume();
+  }
+
+  setRepeatMode(repeatMode: RepeatMode): void {
+    if (repeatMode === 'one') {
+      this.discardStandby();
+    }
+    this.setState({ repeatMode });
+  }
+
+  /**
+   * off → all → one → off
+   */
+  cycleRepeatMode(): void {
+    const next = REPEAT_MODES[(REPEAT_MODES.indexOf(this.state.repeatMode) + 1) % REPEAT_MODES.length];
+    this.setRepeatMode(next);
+  }
+
+  toggleShuffle(): void {
+    this.queue.setShuffled(!this.state.isShuffled);
+    this.setState({ isShuffled: this.queue.isShuffled, upNext: this.queue.upNext });
+  }
+
+  /**
+   * Stop playback and release the audio element; the engine can be reused afterwards
+   */
+  destroy(): void {
+    const audio = this.audio;
+    if (!audio) return;
+
+    this.discardStandby();
+    audio.pause();
+    this.detach(audio);
+    this.graph?.disconnect(audio);
+    audio.removeAttribute('src');
+    audio.load();
+    this.audio = null;
+    this.unlocked = false;
+    this.queueKey = '';
+    this.source = null;
+    this.setState({ isPlaying: false });
+  }
+
+  private setState(update: Partial<PlayerState>): void {
+    this.state = { ...this.state, ...update };
+    this.stateListeners.forEach((listener) => listener());
+  }
+
+  private syncQueue(): void {
+    // A preloaded track is only useful while it is still what comes next
+    if (this.standby && this.queue.peek() !== this.standby.trackIndex) {
+      this.discardStandby();
+    }
+    this.setState({ upNext: this.queue.upNext });
+  }
+
+  private emit<K extends keyof PlayerEventMap>(type: K, event: PlayerEventMap[K]): void {
+    const handlers = this.handlers[type] as Set<PlayerEventHandler<K>> | undefined;
+    handlers?.forEach((handler) => handler(event));
+  }
+
+  // The element is created lazily so the engine can be constructed during SSR
+  private getAudio(): HTMLAudioElement | null {
+    if (!this.audio && typeof document !== 'undefined') {
+      this.audio = this.createElement();
+      this.attach(this.audio);
+      this.applyVolume();
+    }
+    return this.audio;
+  }
+
+  private createElement(): HTMLAudioElement {
+    const element = document.createElement('audio');
+    element.preload = 'metadata';
+    // Web Audio only hears cross-origin media that was fetched with CORS
+    if ((this.options.crossfade || 0) > 0) {
+      element.crossOrigin = 'anonymous';
+    }
+    return element;
+  }
+
+  private attach(audio: HTMLAudioElement): void {
+    audio.addEventListener('timeupdate', this.handleTimeUpdate);
+    audio.addEventListener('loadedmetadata', this.handleLoadedMetadata);
+    audio.addEventListener('play', this.handlePlay);
+    audio.addEventListener('playing', this.handlePlaying);
+    audio.addEventListener('pause', this.handlePause);
+    audio.addEventListener('waiting', this.handleWaiting);
+    audio.addEventListener('ended', this.handleEnded);
+    audio.addEventListener('error', this.handleError);
+  }
+
+  private detach(audio: HTMLAudioElement): void {
+    audio.removeEventListener('timeupdate', this.handleTimeUpdate);
+    audio.removeEventListener('loadedmetadata', this.handleLoadedMetadata);
+    audio.removeEventListener('play', this.handlePlay);
+    audio.removeEventListener('playing', this.handlePlaying);
+    audio.removeEventListener('pause', this.handlePause);
+    audio.removeEventListener('waiting', this.handleWaiting);
+    audio.removeEventListener('ended', this.handleEnded);
+    audio.removeEventListener('error', this.handleError);
+  }
+
+  private applyVolume(): void {
+    const volume = this.state.isMuted ? 0 : this.state.volume;
+    if (this.audio) {
+      this.audio.volume = volume;
+    }
+    if (this.standby) {
+      this.standby.element.volume = volume;
+    }
+  }
+
+  private loadTrack(trackIndex: number, autoplay: boolean): void {
+    const track = this.tracks[trackIndex];
+    if (!track) return;
+
+    const audio = this.getAudio();
+    this.discardStandby();
+    this.resetPlayCount();
+    this.source = null;
+    this.pendingSeek = null;
+    this.endTime = null;
+    this.setState({ currentTrackIndex: trackIndex, currentTime: 0, duration: 0 });
+
+    if (audio) {
+      if (track.url) {
+        audio.src = track.url;
+      } else {
+        // Tracks without a url get their source resolved right before playback
+        audio.removeAttribute('src');
+        audio.load();
+      }
+    }
+
+    this.emit('trackchange', { trackIndex, track });
+    this.options.onTrackChange?.(trackIndex);
+
+    if (autoplay) {
+      this.play();
+    }
+  }
+
+  private resetPlayCount(): void {
+    this.listened = 0;
+    this.lastTick = 0;
+    this.playCounted = false;
+  }
+
+  private report(state: PlaybackStatus): void {
+    const audio = this.audio;
+    if (!audio) return;
+
+    const duration = audio.duration || 0;
+    this.options.onProgress?.({
+      trackId: this.currentTrack?.id,
+      position: state === 'ended' ? duration : audio.currentTime,
+      duration,
+      state,
+    });
+  }
+
+  // The guard and resolver are network calls, and by the time they finish iOS Safari and
+  // autoplay policies no longer treat play() as coming from the tap. Playing silence on the
+  // element synchronously unlocks it; setting the real source later aborts the silence.
+  private unlock(audio: HTMLAudioElement): void {
+    if (this.unlocked) return;
+    this.unlocked = true;
+    // An element that already has its source can't be played silently without being heard
+    if (audio.getAttribute('src')) return;
+
+    audio.src = SILENT_AUDIO;
+    audio.play().then(() => {
+      if (this.isUnlocking(audio)) audio.pause();
+    }).catch(() => {
+      // Aborted by the real source, or refused; play() reports the latter itself
+    });
+  }
+
+  // Events of the unlocking silence are not playback
+  private isUnlocking(audio: HTMLAudioElement | null): boolean {
+    return audio?.getAttribute('src') === SILENT_AUDIO;
+  }
+
+  // Resolve a fresh source when the track has none or the current one is about to expire
+  private async ensureSource(): Promise<boolean> {
+    const audio = this.audio;
+    const track = this.currentTrack;
+    const { resolveSource } = this.options;
+    if (!audio || !track || track.url || !resolveSource) return true;
+
+    const trackIndex = this.state.currentTrackIndex;
+    const cached = this.source?.trackIndex === trackIndex ? this.source : null;
+    const expired = cached?.expiresAt !== undefined && cached.expiresAt - SOURCE_EXPIRY_MARGIN_MS <= Date.now();
+    if (cached && !cached.stale && !expired) {
+      return true;
+    }
+
+    try {
+      const source = await resolveSource(track);
+      if (trackIndex !== this.state.currentTrackIndex) return false;
+
+      const resumeAt = cached ? audio.currentTime || this.lastTick : 0;
+      this.source = { ...source, trackIndex };
+      audio.src = source.url;
+
+      if (resumeAt > 0) {
+        audio.addEventListener('loadedmetadata', () => {
+          audio.currentTime = resumeAt;
+        }, { once: true });
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to resolve track source:', error);
+      return false;
+    }
+  }
+
+  private trackListenTime(audio: HTMLAudioElement): void {
+    const delta = audio.currentTime - this.lastTick;
+    this.lastTick = audio.currentTime;
+
+    // Only natural progression counts; seeks show up as large jumps
+    if (audio.paused || this.playCounted || delta <= 0 || delta > 1.5) return;
+    this.listened += delta;
+
+    const { seconds, percent } = this.options.playCountThreshold || DEFAULT_PLAY_COUNT_THRESHOLD;
+    const reachedSeconds = seconds !== undefined && this.listened >= seconds;
+    const reachedPercent = percent !== undefined && audio.duration > 0
+      && (this.listened / audio.duration) * 100 >= percent;
+
+    const track = this.currentTrack;
+    if ((reachedSeconds || reachedPercent) && track) {
+      const trackIndex = this.state.currentTrackIndex;
+      this.playCounted = true;
+      this.options.onPlayCounted?.(track, trackIndex);
+      this.emit('playcounted', { trackIndex, track });
+    }
+  }
+
+  private getGraph(): AudioGraph | null {
+    if (!this.graph && AudioGraph.isSupported()) {
+      try {
+        this.graph = new AudioGraph();
+      } catch (error) {
+        console.error('Failed to create audio graph:', error);
+      }
+    }
+    return this.graph;
+  }
+
+  // Crossfading needs Web Audio and CORS-enabled elements; otherwise tracks switch at the boundary
+  private crossfadeDuration(): number {
+    const crossfade = this.options.crossfade || 0;
+    if (crossfade <= 0 || !this.audio?.crossOrigin || !this.getGraph()) return 0;
+    return crossfade;
+  }
+
+  private checkTransition(audio: HTMLAudioElement): void {
+    const { gapless, crossfade } = this.options;
+    if ((!gapless && !crossfade) || audio.paused || !audio.duration || this.state.repeatMode === 'one') {
+      return;
+    }
+
+    const remaining = audio.duration - audio.currentTime;
+    if (!this.standby) {
+      if (remaining <= PRELOAD_LEAD_SECONDS) {
+        this.prepareStandby();
+      }
+      return;
+    }
+
+    const standby = this.standby;
+    const fade = this.crossfadeDuration();
+    if (standby.status === 'ready' && remaining <= (fade || GAPLESS_LEAD_SECONDS) + ADMIT_LEAD_SECONDS) {
+      this.admitStandby(standby);
+      return;
+    }
+    if (standby.status !== 'admitted' || this.cancelTransition) return;
+
+    if (fade > 0 && remaining <= fade) {
+      this.startCrossfade(standby, remaining);
+    } else if (fade === 0 && remaining <= GAPLESS_LEAD_SECONDS) {
+      this.scheduleTransition(remaining / (audio.playbackRate || 1), () => this.startStandby(standby));
+    }
+  }
+
+  // Prefer the audio clock: timers fire late in background tabs, leaving gaps at the boundary
+  private scheduleTransition(seconds: number, callback: () => void): void {
+    const run = () => {
+      this.cancelTransition = null;
+      callback();
+    };
+
+    const graph = this.graph;
+    if (graph?.isRunning) {
+      this.cancelTransition = graph.schedule(seconds, run);
+    } else {
+      const timer = setTimeout(run, seconds * 1000);
+      this.cancelTransition = () => clearTimeout(timer);
+    }
+  }
+
+  private clearTransition(): void {
+    this.cancelTransition?.();
+    this.cancelTransition = null;
+  }
+
+  // Resolve and buffer the next queued track on a second element; the guard waits for the handoff
+  private async prepareStandby(): Promise<void> {
+    const trackIndex = this.queue.peek();
+    const track = trackIndex === null ? undefined : this.tracks[trackIndex];
+    if (trackIndex === null || !track) return;
+
+    const standby: Standby = { element: this.createElement(), trackIndex, source: null, status: 'loading' };
+    this.standby = standby;
+
+    try {
+      let url = track.url;
+      if (!url && this.options.resolveSource) {
+        standby.source = await this.options.resolveSource(track);
+        url = standby.source.url;
+      }
+
+      // Discarded while the resolver was pending
+      if (this.standby !== standby) return;
+
+      // Tracks without a source take the regular path at the boundary
+      if (!url) {
+        standby.status = 'blocked';
+        return;
+      }
+
+      standby.element.preload = 'auto';
+      standby.element.volume = this.state.isMuted ? 0 : this.state.volume;
+      standby.element.src = url;
+      standby.element.load();
+      standby.status = 'ready';
+    } catch (error) {
+      console.error('Failed to preload next track:', error);
+      if (this.standby === standby) {
+        standby.status = 'blocked';
+      }
+    }
+  }
+
+  // Ask the play guard about the standby track. Refused tracks take the regular path at
+  // the boundary, which asks again and reports the refusal.
+  private admitStandby(standby: Standby): Promise<boolean> {
+    if (!standby.admission) {
+      const track = this.tracks[standby.trackIndex];
+      standby.status = 'admitting';
+      standby.admission = Promise.resolve(
+        track && this.options.onBeforePlay ? this.options.onBeforePlay(track, standby.trackIndex) : true
+      )
+        .catch((error) => {
+          console.error('Failed to check next track:', error);
+          return false;
+        })
+        .then((allowed) => {
+          if (this.standby === standby) {
+            standby.status = allowed ? 'admitted' : 'blocked';
+          }
+          return allowed && this.standby === standby;
+        });
+    }
+    return standby.admission;
+  }
+
+  private startCrossfade(standby: Standby, duration: number): void {
+    const graph = this.getGraph();
+    const audio = this.audio;
+    if (!graph || !audio) return;
+
+    standby.status = 'started';
+    graph.resume();
+    graph.connect(audio);
+    graph.connect(standby.element, 0);
+    standby.element.play().catch(console.error);
+
+    // Both ramps run on the audio clock, so they stay in sync with each other
+    graph.fade(audio, 0, duration);
+    graph.fade(standby.element, 1, duration);
+
+    this.scheduleTransition(duration, () => this.completeTransition(standby));
+  }
+
+  // Hand over first so the element's own play event reaches the engine's listeners
+  private startStandby(standby: Standby): void {
+    if (this.standby !== standby) return;
+
+    standby.status = 'started';
+    this.completeTransition(standby);
+    standby.element.play().catch(console.error);
+  }
+
+  // Promote the standby element to the active one and close out the previous track
+  private completeTransition(standby: Standby): void {
+    const previous = this.audio;
+    if (!previous || this.standby !== standby) return;
+
+    this.clearTransition();
+
+    this.report('ended');
+    this.emit('ended', { trackIndex: this.state.currentTrackIndex, duration: previous.duration || 0 });
+
+    this.standby = null;
+    this.queue.next(this.state.repeatMode);
+    this.detach(previous);
+    this.retire(previous);
+
+    const { element, trackIndex } = standby;
+    this.audio = element;
+    this.attach(element);
+    this.graph?.setGain(element, 1);
+    this.source = standby.source ? { ...standby.source, trackIndex } : null;
+    this.endTime = null;
+    this.resetPlayCount();
+    this.setState({
+      currentTrackIndex: trackIndex,
+      currentTime: element.currentTime,
+      duration: element.duration || 0,
+      isPlaying: true,
+      upNext: this.queue.upNext,
+    });
+
+    const track = this.tracks[trackIndex];
+    this.emit('trackchange', { trackIndex, track });
+    this.options.onTrackChange?.(trackIndex);
+    // A crossfaded element started playing before it was attached; a gapless one reports itself
+    if (!element.paused) {
+      this.emit('play', { trackIndex, position: element.currentTime });
+    }
+  }
+
+  // Let the outgoing element play out its last samples, then release it
+  private retire(element: HTMLAudioElement): void {
+    const release = () => {
+      element.pause();
+      this.graph?.disconnect(element);
+      element.removeAttribute('src');
+      element.load();
+    };
+
+    if (element.paused || element.ended) {
+      release();
+    } else {
+      element.addEventListener('ended', release, { once: true });
+    }
+  }
+
+  private discardStandby(): void {
+    this.clearTransition();
+
+    const standby = this.standby;
+    this.standby = null;
+    if (!standby) return;
+
+    // Bring the current track back up if a crossfade was cut short
+    if (standby.status === 'started' && this.audio) {
+      this.graph?.setGain(this.audio, 1);
+    }
+    standby.element.pause();
+    this.graph?.disconnect(standby.element);
+    standby.element.removeAttribute('src');
+    standby.element.load();
+  }
+
+  private handleTimeUpdate = (): void => {
+    if (this.isUnlocking(this.audio)) return;
+    const audio = this.audio;
+    if (!audio) return;
+
+    if (this.endTime !== null && !audio.paused && audio.currentTime >= this.endTime) {
+      this.endTime = null;
+      audio.pause();
+    }
+
+    this.checkTransition(audio);
+    this.trackListenTime(audio);
+    if (!audio.paused) {
+      this.report('playing');
+    }
+    this.setState({ currentTime: audio.currentTime, duration: audio.duration || 0 });
+  };
+
+  private handleLoadedMetadata = (): void => {
+    if (this.isUnlocking(this.audio)) return;
+    this.setState({ duration: this.audio?.duration || 0 });
+
+    const pendingSeek = this.pendingSeek;
+    this.pendingSeek = null;
+    if (pendingSeek !== null) {
+      this.seek(pendingSeek);
+    }
+  };
+
+  private handlePlay = (): void => {
+    if (this.isUnlocking(this.audio)) return;
+    this.setState({ isPlaying: true });
+    this.emit('play', { trackIndex: this.state.currentTrackIndex, position: this.audio?.currentTime || 0 });
+  };
+
+  private handlePlaying = (): void => {
+    if (this.isUnlocking(this.audio)) return;
+    this.sourceRefreshes = 0;
+    this.emit('playing', { trackIndex: this.state.currentTrackIndex, position: this.audio?.currentTime || 0 });
+  };
+
+  private handlePause = (): void => {
+    if (this.isUnlocking(this.audio)) return;
+    const audio = this.audio;
+    this.setState({ isPlaying: false });
+
+    // The element also pauses right before 'ended'; that is reported separately
+    if (audio && !audio.ended) {
+      this.report('paused');
+      this.emit('pause', { trackIndex: this.state.currentTrackIndex, position: audio.currentTime });
+    }
+  };
+
+  private handleWaiting = (): void => {
+    if (this.isUnlocking(this.audio)) return;
+    this.emit('waiting', { trackIndex: this.state.currentTrackIndex, position: this.audio?.currentTime || 0 });
+  };
+
+  private handleEnded = (): void => {
+    if (this.isUnlocking(this.audio)) return;
+    const audio = this.audio;
+    if (!audio) return;
+
+    // The boundary arrived before the transition timer; hand over without a reload
+    const standby = this.standby;
+    if (standby?.status === 'started') {
+      this.completeTransition(standby);
+      return;
+    }
+    if (standby && this.state.repeatMode !== 'one') {
+      if (standby.status === 'admitted') {
+        this.startStandby(standby);
+        return;
+      }
+      // The guard hasn't answered yet; wait for it rather than asking twice
+      if (standby.status === 'ready' || standby.status === 'admitting') {
+        this.admitStandby(standby).then((allowed) => {
+          if (allowed) {
+            this.startStandby(standby);
+          } else if (this.audio === audio && audio.ended) {
+            this.finishTrack(audio);
+          }
+        });
+        return;
+      }
+    }
+
+    this.finishTrack(audio);
+  };
+
+  // The current track played to its end without a handoff: repeat it or move on
+  private finishTrack(audio: HTMLAudioElement): void {
+    this.report('ended');
+    this.emit('ended', { trackIndex: this.state.currentTrackIndex, duration: audio.duration || 0 });
+    this.resetPlayCount();
+
+    if (this.state.repeatMode === 'one') {
+      audio.currentTime = 0;
+      this.play();
+    } else {
+      this.next(true);
+    }
+  }
+
+  // Signed sources expire mid-listen; the media element only reports that as an error
+  private handleError = (): void => {
+    if (this.isUnlocking(this.audio)) return;
+    const audio = this.audio;
+    const source = this.source;
+    if (!audio || !source || !audio.error) return;
+
+    if (this.sourceRefreshes >= 1) {
+      this.setState({ isPlaying: false });
+      return;
+    }
+
+    const wasPlaying = this.state.isPlaying;
+    this.sourceRefreshes += 1;
+    source.stale = true;
+    this.ensureSource().then((refreshed) => {
+      if (refreshed && wasPlaying) {
+        audio.play().catch(console.error);
+      }
+    });
+  };
+}
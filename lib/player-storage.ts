@@ -0,0 +1,120 @@
+/**
+ * PlayerStorage
+ *
+ * Remembers listener preferences (volume, mute, repeat, shuffle) globally and
+ * the last position per track and share token, so a reload can offer to resume.
+ * Backed by localStorage by default; any synchronous key/value store with the
+ * KeyValueStorage shape can be plugged in (tests, sessionStorage, in-memory).
+ */
+
+import { PlaySession, PlayerState } from '../types';
+
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export type PlayerPreferences = Pick<PlayerState, 'volume' | 'isMuted' | 'repeatMode' | 'isShuffled'>;
+
+export interface SavedPosition {
+  position: number; // Seconds
+  duration: number;
+  savedAt: number; // Epoch milliseconds
+  session?: PlaySession; // Resuming continues this play instead of starting a new one
+}
+
+const KEY_PREFIX = 'chest-player';
+
+// Positions older than this are not worth offering anymore
+const POSITION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * localStorage, or null where it is unavailable (SSR, disabled cookies, some private modes)
+ */
+export function getLocalStorage(): KeyValueStorage | null {
+  try {
+    if (typeof window === 'undefined' || !window.localStorage) return null;
+    // Safari private mode exposes localStorage but throws on write
+    const probe = `${KEY_PREFIX}:probe`;
+    window.localStorage.setItem(probe, '1');
+    window.localStorage.removeItem(probe);
+    return window.localStorage;
+  } catch (error) {
+    return null;
+  }
+}
+
+export class PlayerStorage {
+  private storage: KeyValueStorage | null;
+
+  constructor(storage: KeyValueStorage | null = getLocalStorage()) {
+    this.storage = storage;
+  }
+
+  loadPreferences(): PlayerPreferences | null {
+    const preferences = this.read<Partial<PlayerPreferences>>(`${KEY_PREFIX}:preferences`);
+    if (!preferences || typeof preferences.volume !== 'number') return null;
+
+    return {
+      volume: Math.max(0, Math.min(1, preferences.volume)),
+      isMuted: !!preferences.isMuted,
+      repeatMode: preferences.repeatMode === 'all' || preferences.repeatMode === 'one' ? preferences.repeatMode : 'off',
+      isShuffled: !!preferences.isShuffled,
+    };
+  }
+
+  savePreferences(preferences: PlayerPreferences): void {
+    this.write(`${KEY_PREFIX}:preferences`, preferences);
+  }
+
+  loadPosition(trackId: string, token?: string): SavedPosition | null {
+    const key = this.positionKey(trackId, token);
+    const saved = this.read<SavedPosition>(key);
+    if (!saved || typeof saved.position !== 'number') return null;
+
+    if (Date.now() - saved.savedAt > POSITION_TTL_MS) {
+      this.remove(key);
+      return null;
+    }
+    return saved;
+  }
+
+  savePosition(trackId: string, token: string | undefined, position: Omit<SavedPosition, 'savedAt'>): void {
+    this.write(this.positionKey(trackId, token), { ...position, savedAt: Date.now() });
+  }
+
+  clearPosition(trackId: string, token?: string): void {
+    this.remove(this.positionKey(trackId, token));
+  }
+
+  // The same track shared through different links keeps separate positions
+  private positionKey(trackId: string, token?: string): string {
+    return `${KEY_PREFIX}:position:${token || 'direct'}:${trackId}`;
+  }
+
+  private read<T>(key: string): T | null {
+    try {
+      const value = this.storage?.getItem(key);
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private write(key: string, value: unknown): void {
+    try {
+      this.storage?.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      // Quota exceeded or storage disabled; persistence is best effort
+    }
+  }
+
+  private remove(key: string): void {
+    try {
+      this.storage?.removeItem(key);
+    } catch (error) {
+      // Storage disabled; nothing to clean up
+    }
+  }
+}
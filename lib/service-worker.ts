@@ -0,0 +1,75 @@
+/**
+ * Registers public/sw.js: the app shell, offline fallback page and cached audio
+ * of shares that allow downloads (see lib/offline-audio).
+ */
+
+import { API_BASE_URL } from './api-client';
+
+/**
+ * Response header marking a page as rendered for one viewer (signed in, or
+ * with a share unlocked); the worker keeps no offline copy of it. Must match
+ * PERSONAL_PAGE_HEADER in public/sw.js.
+ */
+export const PERSONAL_PAGE_HEADER = 'X-Chest-Personal';
+
+// Caches holding what a listener played and saw; must match public/sw.js
+const PERSONAL_CACHE_PREFIXES = ['chest-pages-', 'chest-audio-'];
+
+/**
+ * Origins the worker may fetch audio from: the API's, plus any CDN serving its
+ * signed URLs (NEXT_PUBLIC_AUDIO_ORIGINS, comma-separated). The worker can't
+ * read the environment, so they go along in its URL.
+ */
+function audioOrigins(): string[] {
+  const urls = [API_BASE_URL, ...(process.env.NEXT_PUBLIC_AUDIO_ORIGINS || '').split(',')];
+  const origins: string[] = [];
+  urls.forEach((url) => {
+    try {
+      const { origin } = new URL(url.trim());
+      if (!origins.includes(origin)) origins.push(origin);
+    } catch {
+      // Blank or malformed entry
+    }
+  });
+  return origins;
+}
+
+/**
+ * Register the service worker once the page has loaded. Production only; in
+ * development it would serve stale builds over hot reloading.
+ */
+export function registerServiceWorker(): void {
+  if (process.env.NODE_ENV !== 'production') return;
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  const register = () => {
+    const url = `/sw.js?audio=${encodeURIComponent(audioOrigins().join(' '))}`;
+    navigator.serviceWorker.register(url).catch((error) => {
+      console.error('Failed to register service worker:', error);
+    });
+  };
+
+  if (document.readyState === 'complete') {
+    register();
+  } else {
+    window.addEventListener('load', register, { once: true });
+  }
+}
+
+/**
+ * Drop the saved share pages and audio, e.g. on sign-out, so the next person
+ * on this browser doesn't get them offline
+ */
+export async function clearPersonalCaches(): Promise<void> {
+  if (typeof window === 'undefined' || !('caches' in window)) return;
+  try {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys
+        .filter((key) => PERSONAL_CACHE_PREFIXES.some((prefix) => key.startsWith(prefix)))
+        .map((key) => caches.delete(key))
+    );
+  } catch (error) {
+    // Storage unavailable; nothing was cached then either
+  }
+}
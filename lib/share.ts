@@ -0,0 +1,159 @@
+/**
+ * Shared links
+ *
+ * Server-side loading of everything a share token resolves to, used by both
+ * /share/[token] and /embed/[token].
+ */
+
+import { apiClient } from './api-client';
+import type ChestAPIClient from './api-client';
+import { ApiErrorCode, ExpiredError, describeApiError, getApiErrorCode } from './api-errors';
+import { ChestTrack, ChestUser, GetSharedCollectionRequest, SharedCollection, TrackMeta } from '../types';
+import { parseTimeParam } from '../utils/time';
+
+export type CollectionSummary = Pick<SharedCollection, 'id' | 'name' | 'type' | 'comment_policy' | 'expires_at'>;
+
+// Props of every page that renders a share token
+export interface SharePageProps {
+  tracks?: ChestTrack[];
+  collection?: CollectionSummary;
+  error?: string;
+  errorCode?: ApiErrorCode; // Picks the error page's heading; see describeApiError
+  expiredAt?: string; // With errorCode 'expired', when the link stopped working
+  token: string;
+  meta?: TrackMeta;
+  start?: number | null; // Deep link section, in seconds
+  end?: number | null;
+  crossfade?: number | null; // Seconds of overlap between tracks of a playlist or album
+  user?: ChestUser | null; // Signed-in listener, see lib/auth
+}
+
+// Longer overlaps stop sounding like a transition
+const MAX_CROSSFADE_SECONDS = 12;
+
+/**
+ * Deep link section from the query string: ?t=2m10s&end=3m. An end before the start is dropped.
+ */
+export function parseSectionQuery(query: Record<string, string | string[] | undefined>): { start: number | null; end: number | null } {
+  const start = parseTimeParam(query.t);
+  const end = parseTimeParam(query.end);
+
+  return {
+    start: start && start > 0 ? start : null,
+    end: end && end > (start || 0) ? end : null,
+  };
+}
+
+/**
+ * Crossfade from the query string: ?crossfade=4 (seconds, up to 12). Missing or invalid means none.
+ */
+export function parseCrossfadeQuery(query: Record<string, string | string[] | undefined>): number | null {
+  const raw = Array.isArray(query.crossfade) ? query.crossfade[0] : query.crossfade;
+  const seconds = raw ? parseFloat(raw) : NaN;
+  return seconds > 0 ? Math.min(seconds, MAX_CROSSFADE_SECONDS) : null;
+}
+
+// Fetch track data from Chest Music API
+async function fetchTrackFromAPI(token: string, client: ChestAPIClient, request: GetSharedCollectionRequest): Promise<{
+  tracks?: ChestTrack[];
+  collection?: CollectionSummary;
+  error?: string;
+  errorCode?: ApiErrorCode;
+  expiredAt?: string;
+  meta?: TrackMeta;
+}> {
+  try {
+    const { tracks, ...collection } = await client.getSharedCollection(token, request);
+    // Playlists and albums are described by the collection itself, single tracks by the track
+    const meta = collection.type === 'track'
+      ? apiClient.generateTrackMeta(tracks[0])
+      : apiClient.generateTrackMeta({ id: collection.id, token, name: collection.name, authors: collection.authors, cover: collection.cover });
+    
+    return {
+      // Drop the raw audio URLs so they never reach the page HTML
+      tracks: tracks.map(({ audio, ...track }) => track),
+      collection: {
+        id: collection.id,
+        name: collection.name,
+        type: collection.type,
+        comment_policy: collection.comment_policy || 'disabled',
+        ...(collection.expires_at && { expires_at: collection.expires_at })
+      },
+      meta
+    };
+  } catch (apiError) {
+    // Fallback to mock data for development; like real tracks it carries no audio URL
+    if (token === 'demo') {
+      const mockTrack: ChestTrack = {
+        id: 'demo-track',
+        name: 'Ocean Waves',
+        authors: ['Nature Sounds'],
+        cover: 'https://images.unsplash.com/photo-1505142468610-359e7d316be0?w=400&h=400&fit=crop',
+        plays: 5,
+        play_limit: 10,
+        token
+      };
+      return {
+        tracks: [mockTrack],
+        collection: { id: mockTrack.id, name: mockTrack.name, type: 'track', comment_policy: 'anonymous' },
+        meta: apiClient.generateTrackMeta(mockTrack)
+      };
+    }
+
+    // Dead and locked links are expected; anything else is worth a look in the logs
+    const errorCode = getApiErrorCode(apiError);
+    if (errorCode !== 'not_found' && errorCode !== 'expired' && errorCode !== 'password_required') {
+      console.error('Error fetching track:', apiError);
+    }
+    return {
+      error: describeApiError(errorCode).message,
+      errorCode,
+      ...(apiError instanceof ExpiredError && apiError.expiredAt && { expiredAt: apiError.expiredAt })
+    };
+  }
+}
+
+/**
+ * Load a share token into page props; failures become an `error` prop rather than a 404.
+ * Pass the viewer's client (lib/auth getViewer) to load the share as a signed-in user, and
+ * the access token (lib/auth getShareAccess) for a password-protected share. The device id
+ * (lib/auth getRequestDeviceId) gets an anonymous listener their own per-listener counters.
+ * A locked share yields only errorCode 'password_required': nothing about its tracks.
+ * The access token only loads the share; it stays out of the props (and so the HTML).
+ */
+export async function getSharePageProps(
+  token: string,
+  client: ChestAPIClient = apiClient,
+  access?: string | null,
+  deviceId?: string | null
+): Promise<SharePageProps> {
+  // Fetch track data server-side for better SEO and performance
+  const result = await fetchTrackFromAPI(token, client, {
+    access: access || undefined,
+    device_id: deviceId || undefined,
+  });
+
+  if (result.error) {
+    return {
+      token,
+      error: result.error,
+      errorCode: result.errorCode || 'unknown',
+      ...(result.expiredAt && { expiredAt: result.expiredAt }),
+    };
+  }
+
+  if (!result.tracks || result.tracks.length === 0) {
+    return {
+      token,
+      error: 'No tracks found',
+      errorCode: 'not_found',
+    };
+  }
+
+  return {
+    token,
+    tracks: result.tracks,
+    collection: result.collection,
+    meta: result.meta || apiClient.generateTrackMeta(result.tracks[0]),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Public URLs of the player site, for anything that leaves the page:
+ * oEmbed documents, meta tags, copied links and embed snippets.
+ */
+
+import { ChestTrack } from '../types';
+import { formatTimeParam } from '../utils/time';
+
+// Configuration
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || 'https://chestmusic.com').replace(/\/$/, '');
+
+export type OEmbedFormat = 'json' | 'xml';
+
+export function shareUrl(token: string): string {
+  return `${SITE_URL}/share/${encodeURIComponent(token)}`;
+}
+
+export function embedUrl(token: string): string {
+  return `${SITE_URL}/embed/${encodeURIComponent(token)}`;
+}
+
+// Matches the embed's compact layout: title line + minimal PlayerBar
+export const EMBED_WIDTH = 480;
+export const EMBED_HEIGHT = 120;
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * The <iframe> markup for embedding a player, as handed out by oEmbed and the share dialog
+ */
+export function embedSnippet(src: string, title: string, width = EMBED_WIDTH, height = EMBED_HEIGHT): string {
+  return `<iframe src="${escapeAttribute(src)}" width="${width}" height="${height}" title="${escapeAttribute(title)}" frameborder="0" allow="autoplay; encrypted-media" loading="lazy"></iframe>`;
+}
+
+/**
+ * The same link, starting playback at `seconds` (?t=2m10s)
+ */
+export function linkAtTime(url: string, seconds: number): string {
+  const [base, query = ''] = url.split('?');
+  const params = new URLSearchParams(query);
+  params.set('t', formatTimeParam(seconds));
+  return `${base}?${params.toString()}`;
+}
+
+export function oembedUrl(pageUrl: string, format: OEmbedFormat = 'json'): string {
+  return `${SITE_URL}/api/oembed?url=${encodeURIComponent(pageUrl)}&format=${format}`;
+}
+
+// Everything the social card shows; a change in any of it means a new card
+type SocialCardTrack = Pick<ChestTrack, 'id' | 'token' | 'name' | 'authors' | 'cover' | 'plays' | 'play_limit'>;
+
+// djb2, enough to tell card versions apart
+function hash(value: string): string {
+  let result = 5381;
+  for (let i = 0; i < value.length; i++) {
+    result = ((result << 5) + result + value.charCodeAt(i)) | 0;
+  }
+  return (result >>> 0).toString(36);
+}
+
+/**
+ * Versioned URL of the 1200×630 card rendered by /api/og, safe to cache forever
+ */
+export function socialCardUrl(track: SocialCardTrack): string {
+  const remaining = track.play_limit ? Math.max(0, track.play_limit - (track.plays || 0)) : '';
+  const version = hash([track.name, track.authors?.join(',') || '', track.cover || '', remaining].join('|'));
+
+  const params = new URLSearchParams({ id: track.id, v: version });
+  if (track.token) {
+    params.set('token', track.token);
+  }
+  return `${SITE_URL}/api/og?${params.toString()}`;
+}
+
+/**
+ * Extract the token from a share link on this site; null for anything else
+ */
+export function parseShareUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, SITE_URL);
+  } catch {
+    return null;
+  }
+
+  if (parsed.origin !== new URL(SITE_URL).origin) return null;
+
+  const match = parsed.pathname.match(/^\/(?:share|embed)\/([^/]+)\/?$/);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    // Malformed escape, e.g. a link cut off mid-character
+    return null;
+  }
+}
@@ -1,6 +1,22 @@
+import { useEffect } from 'react'
 import type { AppProps } from 'next/app'
+import Head from 'next/head'
+import { registerServiceWorker } from '@/lib/service-worker'
 import '@/styles/globals.css'
 
 export default function App({ Component, pageProps }: AppProps) {
-  return <Component {...pageProps} />
-}
\ No newline at end of file
+  useEffect(() => {
+    registerServiceWorker()
+  }, [])
+
+  return (
+    <>
+      <Head>
+        <link rel="manifest" href="/manifest.webmanifest" />
+        <link rel="apple-touch-icon" href="/icon.svg" />
+        <meta name="theme-color" content="#000000" />
+      </Head>
+      <Component {...pageProps} />
+    </>
+  )
+}
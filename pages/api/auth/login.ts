@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { apiClient } from '@/lib/api-client';
+import { getApiErrorCode } from '@/lib/api-errors';
+import { isSameSiteJsonRequest, sessionCookie } from '@/lib/auth';
+
+/**
+ * Sign in: POST { email, password }. Stores the session in an httpOnly cookie
+ * and answers with the user; the token itself never reaches page scripts.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Another site must not sign visitors in or out, or unlock shares for them
+  if (!isSameSiteJsonRequest(req)) {
+    return res.status(403).json({ error: 'Cross-site requests are not allowed' });
+  }
+
+  const { email, password } = req.body || {};
+  if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+    return res.status(400).json({ error: 'Email and password are required' });
+  }
+
+  try {
+    const session = await apiClient.login({ email: email.trim(), password });
+    res.setHeader('Set-Cookie', sessionCookie(session));
+    return res.status(200).json({ user: session.user });
+  } catch (error) {
+    const code = getApiErrorCode(error);
+    if (code === 'unauthorized' || code === 'not_found') {
+      return res.status(401).json({ error: 'Wrong email or password' });
+    }
+    if (code === 'rate_limited') {
+      return res.status(429).json({ error: 'Too many attempts. Please wait a moment and try again.' });
+    }
+    console.error('Failed to sign in:', error);
+    return res.status(502).json({ error: 'Signing in is unavailable right now. Please try again later.' });
+  }
+}
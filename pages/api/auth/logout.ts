@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { apiClient } from '@/lib/api-client';
+import { UnauthorizedError } from '@/lib/api-errors';
+import { clearedSessionCookie, getSessionToken, isSameSiteJsonRequest } from '@/lib/auth';
+
+/**
+ * Sign out: POST {}. Ends the API session and clears the cookie. The cookie is cleared
+ * even when the API can't be reached, so the browser is signed out regardless. The
+ * browser's HTTP cache goes too; the page drops the service worker's saved pages and
+ * audio itself (lib/service-worker clearPersonalCaches).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Another site must not sign visitors in or out, or unlock shares for them
+  if (!isSameSiteJsonRequest(req)) {
+    return res.status(403).json({ error: 'Cross-site requests are not allowed' });
+  }
+
+  const token = getSessionToken(req);
+  if (token) {
+    try {
+      await apiClient.withAuth({ session: token }).logout();
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError)) {
+        console.error('Failed to end session:', error);
+      }
+    }
+  }
+
+  res.setHeader('Set-Cookie', clearedSessionCookie());
+  res.setHeader('Clear-Site-Data', '"cache"');
+  return res.status(200).json({ success: true });
+}
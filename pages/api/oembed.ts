@@ -0,0 +1,114 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { apiClient } from '@/lib/api-client';
+import { getApiErrorCode } from '@/lib/api-errors';
+import { EMBED_HEIGHT, EMBED_WIDTH, embedSnippet, embedUrl, parseShareUrl, SITE_URL } from '@/lib/urls';
+import { ChestTrack } from '@/types';
+
+const MIN_WIDTH = 240;
+const THUMBNAIL_SIZE = 400;
+const CACHE_AGE_SECONDS = 3600;
+
+interface OEmbedResponse {
+  version: '1.0';
+  type: 'rich';
+  provider_name: string;
+  provider_url: string;
+  title: string;
+  author_name: string;
+  thumbnail_url: string;
+  thumbnail_width: number;
+  thumbnail_height: number;
+  html: string;
+  width: number;
+  height: number;
+  cache_age: number;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toXml(data: OEmbedResponse): string {
+  const fields = Object.entries(data)
+    .map(([key, value]) => `  <${key}>${escapeXml(String(value))}</${key}>`)
+    .join('\n');
+  return `<?xml version="1.0" encoding="utf-8" standalone="yes"?>\n<oembed>\n${fields}\n</oembed>`;
+}
+
+// maxwidth/maxheight only ever shrink the default size
+function clampSize(requested: string | string[] | undefined, fallback: number, min = 0): number {
+  const value = typeof requested === 'string' ? parseInt(requested, 10) : NaN;
+  return Number.isFinite(value) && value > 0 ? Math.max(min, Math.min(fallback, value)) : fallback;
+}
+
+/**
+ * oEmbed provider for share links: /api/oembed?url=<share url>&format=json|xml
+ * https://oembed.com/#section2
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { url, format = 'json', maxwidth, maxheight } = req.query;
+
+  if (format !== 'json' && format !== 'xml') {
+    return res.status(501).json({ error: 'Unsupported format' });
+  }
+
+  const token = typeof url === 'string' ? parseShareUrl(url) : null;
+  if (!token) {
+    return res.status(404).json({ error: 'Not a Chest Music share link' });
+  }
+
+  let track: ChestTrack;
+  try {
+    track = await apiClient.getSharedTrack(token);
+  } catch (error) {
+    const code = getApiErrorCode(error);
+    if (code === 'unauthorized' || code === 'password_required') {
+      return res.status(401).json({ error: 'Track is not public' });
+    }
+    if (code === 'not_found' || code === 'expired') {
+      return res.status(404).json({ error: 'Track not found or has expired' });
+    }
+    console.error('Failed to resolve oEmbed url:', error);
+    return res.status(502).json({ error: 'Track could not be loaded' });
+  }
+
+  const width = clampSize(maxwidth, EMBED_WIDTH, MIN_WIDTH);
+  const height = clampSize(maxheight, EMBED_HEIGHT);
+  const authorName = track.authors?.join(', ') || 'Unknown Artist';
+  const title = `${track.name} - ${authorName}`;
+
+  const data: OEmbedResponse = {
+    version: '1.0',
+    type: 'rich',
+    provider_name: 'Chest Music',
+    provider_url: SITE_URL,
+    title: track.name,
+    author_name: authorName,
+    thumbnail_url: track.cover || 'https://cdn.chestmusic.com/cover-default.jpg',
+    thumbnail_width: THUMBNAIL_SIZE,
+    thumbnail_height: THUMBNAIL_SIZE,
+    html: embedSnippet(embedUrl(token), title, width, height),
+    width,
+    height,
+    cache_age: CACHE_AGE_SECONDS,
+  };
+
+  res.setHeader('Cache-Control', `public, s-maxage=${CACHE_AGE_SECONDS}, stale-while-revalidate=86400`);
+
+  if (format === 'xml') {
+    res.setHeader('Content-Type', 'text/xml; charset=utf-8');
+    return res.status(200).send(toXml(data));
+  }
+
+  return res.status(200).json(data);
+}
@@ -0,0 +1,110 @@
+import { ImageResponse } from 'next/og';
+import type { NextRequest } from 'next/server';
+import { apiClient } from '@/lib/api-client';
+import { ChestTrack } from '@/types';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const COVER_SIZE = 470;
+const DEFAULT_COVER = 'https://cdn.chestmusic.com/cover-default.jpg';
+
+// Card URLs carry a version (see socialCardUrl), so a given URL never changes
+const VERSIONED_CACHE = 'public, max-age=31536000, immutable';
+const UNVERSIONED_CACHE = 'public, max-age=300, s-maxage=3600';
+// The fallback card may only stand in for a failed lookup; don't let caches keep it
+const FALLBACK_CACHE = 'no-store';
+
+async function loadTrack(id: string, token: string | null): Promise<ChestTrack | null> {
+  try {
+    return token ? await apiClient.getSharedTrack(token) : await apiClient.getTrack(id);
+  } catch (error) {
+    console.error('Failed to load track for social card:', error);
+    return null;
+  }
+}
+
+/**
+ * 1200×630 Open Graph / Twitter card for a track: /api/og?id=…&token=…&v=…
+ * Unknown or expired tracks get a plain branded card rather than an error, so
+ * previews never break.
+ */
+export default async function handler(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get('id');
+  if (!id) {
+    return new Response('Missing track id', { status: 400 });
+  }
+
+  const track = await loadTrack(id, searchParams.get('token'));
+  const remaining = track?.play_limit ? Math.max(0, track.play_limit - (track.plays || 0)) : null;
+
+  const image = new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          padding: '80px',
+          gap: '64px',
+          background: 'linear-gradient(135deg, #0b0b0f 0%, #1e293b 100%)',
+          color: 'white',
+          fontFamily: 'sans-serif',
+        }}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={track?.cover || DEFAULT_COVER}
+          width={COVER_SIZE}
+          height={COVER_SIZE}
+          alt=""
+          style={{ borderRadius: '24px', objectFit: 'cover', boxShadow: '0 24px 64px rgba(0, 0, 0, 0.6)' }}
+        />
+
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1, minWidth: 0, height: `${COVER_SIZE}px` }}>
+          <div style={{ display: 'flex', flexDirection: 'column', flex: 1, justifyContent: 'center' }}>
+            <div style={{ fontSize: '64px', fontWeight: 700, lineHeight: 1.1, letterSpacing: '-0.02em' }}>
+              {track?.name || 'Listen on Chest Music'}
+            </div>
+            {track && (
+              <div style={{ marginTop: '20px', fontSize: '36px', opacity: 0.75 }}>
+                {track.authors?.join(', ') || 'Unknown Artist'}
+              </div>
+            )}
+            {remaining !== null && (
+              <div style={{ display: 'flex', marginTop: '36px' }}>
+                <div
+                  style={{
+                    padding: '10px 24px',
+                    borderRadius: '999px',
+                    background: remaining > 0 ? 'rgba(96, 165, 250, 0.2)' : 'rgba(248, 113, 113, 0.2)',
+                    color: remaining > 0 ? '#93c5fd' : '#fca5a5',
+                    fontSize: '28px',
+                  }}
+                >
+                  {remaining > 0 ? `${remaining} ${remaining === 1 ? 'play' : 'plays'} remaining` : 'No plays remaining'}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div style={{ fontSize: '30px', fontWeight: 600, opacity: 0.6 }}>Chest Music</div>
+        </div>
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+    }
+  );
+
+  // Replace (not append to) ImageResponse's default, which assumes every URL is immutable
+  const cacheControl = !track ? FALLBACK_CACHE : searchParams.has('v') ? VERSIONED_CACHE : UNVERSIONED_CACHE;
+  image.headers.set('Cache-Control', cacheControl);
+  return image;
+}
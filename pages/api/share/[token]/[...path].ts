@@ -0,0 +1,79 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { API_BASE_URL } from '@/lib/api-client';
+import { getSessionToken, getShareAccess, isSameSiteJsonRequest } from '@/lib/auth';
+
+/**
+ * Relay for the API calls a share page makes on its listener's behalf (see
+ * lib/auth shareClientFor). The share's access token lives in an httpOnly
+ * cookie that page scripts can't read; it is added here, together with the
+ * viewer's session, and the API's answer is passed back unchanged. Only the
+ * calls below are relayed, and only for the share in the URL.
+ */
+const RELAYED_CALLS: { method: string; path: RegExp }[] = [
+  { method: 'POST', path: /^tracks\/[^/]+\/sessions$/ },
+  { method: 'GET', path: /^tracks\/[^/]+\/comments$/ },
+  { method: 'POST', path: /^tracks\/[^/]+\/comments$/ },
+  { method: 'POST', path: /^tracks\/[^/]+\/play-requests$/ },
+  { method: 'GET', path: /^play-requests\/[^/]+$/ },
+];
+
+const RELAY_TIMEOUT_MS = 10000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { token, path } = req.query;
+  const apiPath = Array.isArray(path) ? path.map(encodeURIComponent).join('/') : '';
+  if (typeof token !== 'string' || !RELAYED_CALLS.some((call) => call.path.test(apiPath))) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  const method = req.method || 'GET';
+  if (!RELAYED_CALLS.some((call) => call.method === method && call.path.test(apiPath))) {
+    res.setHeader('Allow', RELAYED_CALLS.filter((call) => call.path.test(apiPath)).map((call) => call.method).join(', '));
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // The cookies ride along automatically, so another site must not be able to post here
+  if (method !== 'GET' && !isSameSiteJsonRequest(req)) {
+    return res.status(403).json({ error: 'Cross-site requests are not allowed' });
+  }
+
+  // Whatever share the page named, the call is made for the one in the URL
+  const access = getShareAccess(req, token);
+  const query = new URL(req.url || '', 'http://relay').searchParams;
+  let body: string | undefined;
+  if (method === 'GET') {
+    query.set('token', token);
+    if (access) query.set('access', access);
+  } else {
+    body = JSON.stringify({ ...(req.body || {}), token, ...(access && { access }) });
+  }
+
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  const session = getSessionToken(req);
+  if (session) headers['Authorization'] = `Bearer ${session}`;
+
+  const search = method === 'GET' ? `?${query.toString()}` : '';
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(`${API_BASE_URL}/${apiPath}${search}`, {
+      method,
+      headers,
+      body,
+      signal: AbortSignal.timeout(RELAY_TIMEOUT_MS),
+    });
+    text = await response.text();
+  } catch (error) {
+    // A code the page's client maps to a server error (lib/api-errors parseApiError)
+    console.error('Failed to relay share request:', error);
+    return res.status(502).json({ code: 'upstream_error', message: 'The music service is unavailable right now' });
+  }
+
+  res.status(response.status);
+  ['content-type', 'retry-after'].forEach((name) => {
+    const value = response.headers.get(name);
+    if (value) res.setHeader(name, value);
+  });
+  return res.send(text);
+}
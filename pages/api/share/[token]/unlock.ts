@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { apiClient } from '@/lib/api-client';
+import { getApiErrorCode } from '@/lib/api-errors';
+import { isSameSiteJsonRequest, shareAccessCookie } from '@/lib/auth';
+
+/**
+ * Unlock a password-protected share: POST { password }. The access token goes
+ * into an httpOnly cookie that the share page sends to the API when rendering.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Another site must not sign visitors in or out, or unlock shares for them
+  if (!isSameSiteJsonRequest(req)) {
+    return res.status(403).json({ error: 'Cross-site requests are not allowed' });
+  }
+
+  const { token } = req.query;
+  const { password } = req.body || {};
+  if (typeof token !== 'string' || typeof password !== 'string' || !password) {
+    return res.status(400).json({ error: 'Password is required' });
+  }
+
+  try {
+    const access = await apiClient.unlockShare({ token, password });
+    res.setHeader('Set-Cookie', shareAccessCookie(token, access));
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    const code = getApiErrorCode(error);
+    if (code === 'password_required' || code === 'unauthorized') {
+      return res.status(401).json({ error: 'Wrong password' });
+    }
+    if (code === 'expired') {
+      return res.status(410).json({ error: 'This link has expired' });
+    }
+    if (code === 'not_found') {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+    if (code === 'rate_limited') {
+      return res.status(429).json({ error: 'Too many attempts. Please wait a moment and try again.' });
+    }
+    console.error('Failed to unlock share:', error);
+    return res.status(502).json({ error: 'Unlocking is unavailable right now. Please try again later.' });
+  }
+}
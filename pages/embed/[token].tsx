@@ -0,0 +1,151 @@
+import React, { useEffect, useRef } from 'react';
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import PlayerBar from '@/components/PlayerBar';
+import { useEmbedBridge } from '@/hooks/useEmbedBridge';
+import { useSharePlayer } from '@/hooks/useSharePlayer';
+import { getRequestDeviceId, getShareAccess } from '@/lib/auth';
+import { PERSONAL_PAGE_HEADER } from '@/lib/service-worker';
+import { getSharePageProps, parseCrossfadeQuery, parseSectionQuery, SharePageProps } from '@/lib/share';
+import { formatDate } from '@/utils/time';
+
+type EmbedTheme = 'dark' | 'light';
+
+interface EmbedPageProps extends SharePageProps {
+  theme: EmbedTheme;
+  autoplay: boolean;
+}
+
+/**
+ * Compact player for iframes on other sites: /embed/[token]?theme=light&autoplay=1&t=1m30s&end=2m&crossfade=4
+ * Host pages can drive it through the postMessage API in hooks/useEmbedBridge.
+ */
+const EmbedPage: React.FC<EmbedPageProps> = ({
+  tracks,
+  collection,
+  error,
+  errorCode,
+  expiredAt,
+  token,
+  theme,
+  autoplay,
+  start,
+  end,
+  crossfade,
+}) => {
+  const { player, playLimits, currentTrack, resumeOffer } = useSharePlayer({ tracks, token, collection, start, end, crossfade });
+  const { engine } = player;
+  useEmbedBridge(player, playLimits.limitsByTrack);
+
+  // Autoplay applies once, after the engine has its queue
+  const appliedRef = useRef(false);
+  useEffect(() => {
+    if (appliedRef.current || !tracks?.length) return;
+    appliedRef.current = true;
+
+    if (autoplay) {
+      // Browsers may refuse autoplay with sound until the visitor interacts
+      engine.play();
+    }
+  }, [engine, tracks, autoplay]);
+
+  const textColor = theme === 'light' ? '#111' : 'white';
+
+  return (
+    <>
+      <Head>
+        <title>{currentTrack ? `${currentTrack.name} - Chest Music` : 'Chest Music'}</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      {/* No page chrome: the host page decides what surrounds the player */}
+      <style jsx global>{`
+        html,
+        body {
+          background: transparent;
+          padding-bottom: 0;
+        }
+      `}</style>
+
+      <div style={{ padding: '8px', color: textColor }}>
+        {error || !currentTrack ? (
+          <p style={{ margin: 0, padding: '16px', fontSize: '14px', opacity: 0.7, textAlign: 'center' }}>
+            {errorCode === 'expired' && expiredAt ? `This link expired on ${formatDate(expiredAt)}.` : error || 'No tracks available'}
+            {/* Third-party iframes rarely get cookies, so unlocking happens on the share page */}
+            {errorCode === 'password_required' && (
+              <>
+                {' '}
+                <a href={`/share/${encodeURIComponent(token)}`} target="_blank" rel="noopener noreferrer" style={{ textDecoration: 'underline' }}>
+                  Unlock on Chest Music
+                </a>
+              </>
+            )}
+          </p>
+        ) : (
+          <>
+            <a
+              href={`/share/${encodeURIComponent(token)}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{
+                display: 'block',
+                margin: '0 4px 6px',
+                fontSize: '13px',
+                fontWeight: 500,
+                whiteSpace: 'nowrap',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis'
+              }}
+            >
+              {currentTrack.name}
+              <span style={{ opacity: 0.6 }}> · {currentTrack.authors?.join(', ') || 'Unknown Artist'}</span>
+            </a>
+
+            <PlayerBar
+              player={player}
+              variant="minimal"
+              theme={theme}
+              embedded
+              resumeOffer={resumeOffer}
+            />
+
+            {playLimits.isLimitReached && (
+              <p style={{ margin: '6px 4px 0', fontSize: '12px', opacity: 0.7 }}>
+                {playLimits.limitMode === 'listener'
+                  ? 'You\'ve used all your plays of this track.'
+                  : 'Play limit reached for this track.'}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps<EmbedPageProps> = async (context) => {
+  const { token } = context.params!;
+  const { theme, autoplay } = context.query;
+
+  if (typeof token !== 'string') {
+    return {
+      notFound: true,
+    };
+  }
+
+  const access = getShareAccess(context.req, token);
+  if (access) context.res.setHeader(PERSONAL_PAGE_HEADER, '1');
+
+  return {
+    props: {
+      ...(await getSharePageProps(token, undefined, access, getRequestDeviceId(context.req))),
+      theme: theme === 'light' ? 'light' : 'dark',
+      autoplay: autoplay === '1' || autoplay === 'true',
+      ...parseSectionQuery(context.query),
+      crossfade: parseCrossfadeQuery(context.query),
+    },
+  };
+};
+
+export default EmbedPage;
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { getViewer, safeRedirect } from '@/lib/auth';
+
+interface LoginPageProps {
+  next: string; // Where to go once signed in
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '12px 14px',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '10px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: 'white',
+  fontSize: '15px',
+  fontFamily: 'inherit'
+};
+
+const LoginPage: React.FC<LoginPageProps> = ({ next }) => {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Signing in failed. Please try again.');
+        setIsSubmitting(false);
+        return;
+      }
+
+      // A full navigation so the next page renders server-side with the new session
+      window.location.assign(next);
+    } catch (err) {
+      console.error('Failed to sign in:', err);
+      setError('We couldn\'t reach Chest Music. Check your connection and try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Sign in - Chest Music</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <div style={{
+        minHeight: '100vh',
+        backgroundColor: '#000',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        color: 'white',
+        padding: '40px 20px'
+      }}>
+        <form
+          onSubmit={handleSubmit}
+          style={{
+            background: 'rgba(30, 30, 30, 0.7)',
+            backdropFilter: 'blur(16px)',
+            borderRadius: '16px',
+            padding: '32px',
+            border: '1px solid rgba(255, 255, 255, 0.08)',
+            maxWidth: '360px',
+            width: '100%',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '12px'
+          }}
+        >
+          <h1 style={{ margin: '0 0 8px 0', fontSize: '24px', fontWeight: 600, letterSpacing: '-0.01em' }}>
+            Sign in
+          </h1>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            required
+            style={inputStyle}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete="current-password"
+            required
+            style={inputStyle}
+          />
+          {error && (
+            <p role="alert" style={{ margin: 0, fontSize: '13px', color: '#fca5a5' }}>{error}</p>
+          )}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            style={{
+              marginTop: '8px',
+              padding: '12px 24px',
+              border: 'none',
+              borderRadius: '25px',
+              background: 'white',
+              color: 'black',
+              fontSize: '14px',
+              fontWeight: 500,
+              cursor: isSubmitting ? 'default' : 'pointer',
+              opacity: isSubmitting ? 0.6 : 1
+            }}
+          >
+            {isSubmitting ? 'Signing in…' : 'Sign in'}
+          </button>
+          <button
+            type="button"
+            onClick={() => router.push(next)}
+            style={{ border: 'none', background: 'none', color: 'white', opacity: 0.6, fontSize: '13px', cursor: 'pointer' }}
+          >
+            Continue without signing in
+          </button>
+        </form>
+      </div>
+    </>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps<LoginPageProps> = async (context) => {
+  const next = safeRedirect(context.query.next);
+  const { user } = await getViewer(context.req);
+
+  // Already signed in: nothing to do here
+  if (user) {
+    return {
+      redirect: {
+        destination: next,
+        permanent: false,
+      },
+    };
+  }
+
+  return {
+    props: { next },
+  };
+};
+
+export default LoginPage;
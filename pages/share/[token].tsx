@@ -1,37 +1,101 @@
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
 import { GetServerSideProps } from 'next';
 import Head from 'next/head';
 import Link from 'next/link';
 import PlayerBar from '@/components/PlayerBar';
 import { PlayLimitBanner } from '@/components/PlayLimitBanner';
 import { PlayLimitModal } from '@/components/PlayLimitModal';
-import { usePlayLimits } from '@/hooks/usePlayLimits';
+import { ShareTracklist } from '@/components/ShareTracklist';
+import { CommentPanel } from '@/components/CommentPanel';
+import { AccountStatus } from '@/components/AccountStatus';
+import { SharePasswordGate } from '@/components/SharePasswordGate';
+import { useComments } from '@/hooks/useComments';
+import { useSharePlayer } from '@/hooks/useSharePlayer';
 import { apiClient } from '@/lib/api-client';
-import { chestTracksToTracks } from '@/utils/track-adapter';
-import { ChestTrack, TrackMeta } from '@/types';
+import { getSharePageProps, parseCrossfadeQuery, parseSectionQuery, SharePageProps } from '@/lib/share';
+import { oembedUrl, shareUrl } from '@/lib/urls';
+import { describeApiError } from '@/lib/api-errors';
+import { clientFor, getRequestDeviceId, getShareAccess, getViewer, isOwner, loginUrl } from '@/lib/auth';
+import { PERSONAL_PAGE_HEADER } from '@/lib/service-worker';
+import { ProgressMarker } from '@/types';
+import { formatDate } from '@/utils/time';
 
-interface SharePageProps {
-  tracks?: ChestTrack[];
-  error?: string;
-  token: string;
-  meta?: TrackMeta;
-}
-
-const SharePage: React.FC<SharePageProps> = ({ tracks, error, token, meta }) => {
-  const [showLimitModal, setShowLimitModal] = useState(false);
-  const currentTrack = tracks?.[0] || null;
+const SharePage: React.FC<SharePageProps> = ({
+  tracks,
+  collection,
+  error,
+  errorCode,
+  expiredAt,
+  token,
+  meta,
+  start,
+  end,
+  crossfade,
+  user,
+}) => {
+  const {
+    player,
+    playLimits,
+    currentIndex,
+    currentTrack,
+    isLimitModalOpen,
+    closeLimitModal,
+    resumeOffer,
+    playRequest,
+  } = useSharePlayer({ tracks, token, collection, start, end, crossfade, user });
   const isSharedLink = !!token;
-  
-  const playLimits = usePlayLimits({
-    track: currentTrack,
-    isSharedLink
+  // Owners get the full player, with its button for making more links to the track
+  const ownsTrack = isOwner(tracks?.[currentIndex], user);
+
+  const commentPolicy = collection?.comment_policy || 'disabled';
+  const comments = useComments({
+    trackId: currentTrack?.id,
+    token,
+    enabled: commentPolicy !== 'disabled',
+    user
   });
+  const commentMarkers = useMemo((): ProgressMarker[] => comments.comments.map((comment) => ({
+    id: comment.id,
+    position: comment.position,
+    label: `${comment.author_name}: ${comment.body}`,
+  })), [comments.comments]);
+
+  // Password gate: the props carry nothing about the share until it is unlocked
+  if (errorCode === 'password_required') {
+    return (
+      <>
+        <Head>
+          <title>Protected link - Chest Music</title>
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+          <meta name="robots" content="noindex" />
+        </Head>
+
+        <div style={{
+          minHeight: '100vh',
+          backgroundColor: '#000',
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          color: 'white',
+          padding: '40px 20px'
+        }}>
+          <SharePasswordGate token={token} />
+        </div>
+      </>
+    );
+  }
+
   // Error state - elegant and simple
   if (error) {
+    const { title: errorTitle } = describeApiError(errorCode);
+    const errorMessage = errorCode === 'expired' && expiredAt
+      ? `This link expired on ${formatDate(expiredAt)}.`
+      : error;
+
     return (
       <>
         <Head>
-          <title>Track Not Found</title>
+          <title>{errorTitle}</title>
           <meta name="viewport" content="width=device-width, initial-scale=1" />
         </Head>
         
@@ -68,7 +132,7 @@ const SharePage: React.FC<SharePageProps> = ({ tracks, error, token, meta }) =>
               marginBottom: '8px',
               letterSpacing: '-0.01em'
             }}>
-              Track not found
+              {errorTitle}
             </h1>
             <p style={{
               fontSize: '16px',
@@ -76,7 +140,7 @@ const SharePage: React.FC<SharePageProps> = ({ tracks, error, token, meta }) =>
               marginBottom: '24px',
               lineHeight: 1.4
             }}>
-              {error}
+              {errorMessage}
             </p>
             <Link 
               href="/"
@@ -139,6 +203,8 @@ const SharePage: React.FC<SharePageProps> = ({ tracks, error, token, meta }) =>
         <meta property="og:title" content={trackMeta?.ogTitle || trackMeta?.title || 'Chest Music'} />
         <meta property="og:description" content={trackMeta?.ogDescription || trackMeta?.description || 'Listen to music on Chest Music'} />
         <meta property="og:image" content={trackMeta?.ogImage || 'https://cdn.chestmusic.com/cover-default.jpg'} />
+        <meta property="og:image:width" content="1200" />
+        <meta property="og:image:height" content="630" />
         <meta property="og:type" content="music.song" />
         <meta name="twitter:card" content={trackMeta?.twitterCard || 'summary_large_image'} />
         <meta name="twitter:title" content={trackMeta?.twitterTitle || trackMeta?.title || 'Chest Music'} />
@@ -146,6 +212,9 @@ const SharePage: React.FC<SharePageProps> = ({ tracks, error, token, meta }) =>
         <meta name="twitter:image" content={trackMeta?.twitterImage || trackMeta?.ogImage || 'https://cdn.chestmusic.com/cover-default.jpg'} />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
         <link rel="icon" href="/favicon.ico" />
+        {/* oEmbed discovery for Slack, Discord, Notion, WordPress... */}
+        <link rel="alternate" type="application/json+oembed" href={oembedUrl(shareUrl(token))} title={trackMeta?.title} />
+        <link rel="alternate" type="text/xml+oembed" href={oembedUrl(shareUrl(token), 'xml')} title={trackMeta?.title} />
       </Head>
 
       <div style={{ 
@@ -169,6 +238,8 @@ const SharePage: React.FC<SharePageProps> = ({ tracks, error, token, meta }) =>
           backdropFilter: 'blur(24px)',
           zIndex: -1
         }} />
+
+        <AccountStatus user={user} returnTo={`/share/${encodeURIComponent(token)}`} />
         
         {/* Main content - minimalist album display */}
         <div style={{
@@ -215,11 +286,54 @@ const SharePage: React.FC<SharePageProps> = ({ tracks, error, token, meta }) =>
             }}>
               {currentTrack?.authors?.join(', ') || 'Unknown Artist'}
             </p>
+            {collection && collection.type !== 'track' && (
+              <p style={{
+                margin: '12px 0 0 0',
+                fontSize: '13px',
+                opacity: 0.6,
+                textTransform: 'uppercase',
+                letterSpacing: '0.08em'
+              }}>
+                {collection.type} · {collection.name}
+              </p>
+            )}
+            {collection?.expires_at && (
+              <p style={{ margin: '8px 0 0 0', fontSize: '13px', opacity: 0.6 }}>
+                Link expires on {formatDate(collection.expires_at)}
+              </p>
+            )}
+
+            <ShareTracklist
+              tracks={tracks}
+              currentIndex={currentIndex}
+              limitsByTrack={playLimits.limitsByTrack}
+              onSelect={(index) => player.skipTo(index, true)}
+            />
+
+            <CommentPanel
+              comments={comments.comments}
+              policy={commentPolicy}
+              currentTime={player.state.currentTime}
+              isLoading={comments.isLoading}
+              error={comments.error}
+              onSeek={player.seek}
+              onSubmit={comments.postComment}
+              user={user}
+              signInHref={loginUrl(`/share/${encodeURIComponent(token)}`)}
+            />
           </div>
         </div>
 
         {/* Player Bar - Fixed at bottom */}
-        <PlayerBar tracks={tracks ? chestTracksToTracks(tracks) : []} variant="minimal" />
+        <PlayerBar
+          player={player}
+          variant={ownsTrack ? 'full' : 'minimal'}
+          waveform
+          markers={commentMarkers}
+          resumeOffer={resumeOffer}
+          shareLink={shareUrl(token)}
+          shareClient={ownsTrack ? clientFor(user) : undefined}
+        />
         
         {/* Play Limits UI */}
         {isSharedLink && currentTrack && (
@@ -228,11 +342,15 @@ const SharePage: React.FC<SharePageProps> = ({ tracks, error, token, meta }) =>
               playCount={playLimits.playCount}
               playLimit={playLimits.playLimit || 0}
               isSharedLink={isSharedLink}
+              limitMode={playLimits.limitMode}
             />
             <PlayLimitModal 
-              isOpen={showLimitModal}
-              onClose={() => setShowLimitModal(false)}
+              isOpen={isLimitModalOpen}
+              onClose={closeLimitModal}
               trackName={currentTrack.name}
+              errorCode={playLimits.sessionError}
+              limitMode={playLimits.limitMode}
+              playRequest={playRequest}
             />
           </>
         )}
@@ -241,73 +359,7 @@ const SharePage: React.FC<SharePageProps> = ({ tracks, error, token, meta }) =>
   );
 };
 
-// Fetch track data from Chest Music API
-async function fetchTrackFromAPI(token: string): Promise<{ tracks?: ChestTrack[]; error?: string; meta?: TrackMeta }> {
-  try {
-    // TODO: Replace with actual API call to /api/tracks/${token}
-    // For now, simulate different responses based on token
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 100));
-    
-    // Real API call to get shared track
-    try {
-      const track = await apiClient.getSharedTrack(token);
-      const meta = apiClient.generateTrackMeta(track);
-      
-      return {
-        tracks: [track],
-        meta
-      };
-    } catch (apiError) {
-      // Fallback to mock data for development
-      if (token === 'demo') {
-        const mockTrack: ChestTrack = {
-          id: 'demo-track',
-          name: 'Ocean Waves',
-          authors: ['Nature Sounds'],
-          cover: 'https://images.unsplash.com/photo-1505142468610-359e7d316be0?w=400&h=400&fit=crop',
-          audio: 'https://www.soundjay.com/misc/sounds/bell-ringing-05.wav',
-          plays: 5,
-          play_limit: 10,
-          token
-        };
-        return {
-          tracks: [mockTrack],
-          meta: apiClient.generateTrackMeta(mockTrack)
-        };
-      }
-      
-      return {
-        error: 'Track not found or has expired'
-      };
-    }
-    
-    /* 
-    // Real implementation would look like this:
-    const apiUrl = process.env.API_BASE_URL || 'http://localhost:3001';
-    const response = await fetch(`${apiUrl}/api/tracks/${token}`);
-    
-    if (!response.ok) {
-      if (response.status === 404) {
-        return { error: 'Track not found' };
-      }
-      throw new Error(`API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return { tracks: data.tracks || [data.track] };
-    */
-    
-  } catch (error) {
-    console.error('Error fetching track:', error);
-    return {
-      error: 'Failed to load track. Please try again later.'
-    };
-  }
-}
-
-export const getServerSideProps: GetServerSideProps = async (context) => {
+export const getServerSideProps: GetServerSideProps<SharePageProps> = async (context) => {
   const { token } = context.params!;
   
   if (typeof token !== 'string') {
@@ -316,33 +368,19 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
     };
   }
 
-  // Fetch track data server-side for better SEO and performance
-  const result = await fetchTrackFromAPI(token);
-  
-  if (result.error) {
-    return {
-      props: {
-        token,
-        error: result.error,
-      },
-    };
-  }
-  
-  if (!result.tracks || result.tracks.length === 0) {
-    return {
-      props: {
-        token,
-        error: 'No tracks found',
-      },
-    };
-  }
+  // Signed-in listeners load the share as themselves, so their plays are theirs
+  const { user, client } = await getViewer(context.req);
+  const access = getShareAccess(context.req, token);
+  if (user || access) context.res.setHeader(PERSONAL_PAGE_HEADER, '1');
 
   return {
     props: {
-      token,
-      tracks: result.tracks,
+      ...(await getSharePageProps(token, client, access, getRequestDeviceId(context.req))),
+      ...parseSectionQuery(context.query),
+      crossfade: parseCrossfadeQuery(context.query),
+      user,
     },
   };
 };
 
-export default SharePage;
\ No newline at end of file
+export default SharePage;
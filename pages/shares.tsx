@@ -0,0 +1,103 @@
+import React from 'react';
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import { AccountStatus } from '@/components/AccountStatus';
+import { ShareLinkCard } from '@/components/ShareLinkCard';
+import { useShareDashboard } from '@/hooks/useShareDashboard';
+import { describeApiError, getApiErrorCode } from '@/lib/api-errors';
+import { getViewer, loginUrl } from '@/lib/auth';
+import { ChestUser, ShareLink } from '@/types';
+
+interface SharesPageProps {
+  user: ChestUser;
+  shares: ShareLink[];
+  error?: string; // The list could not be loaded
+}
+
+const SharesPage: React.FC<SharesPageProps> = ({ user, shares: initialShares, error: loadError }) => {
+  const { shares, pendingToken, error, setPlayLimit, revoke, regenerate } = useShareDashboard({ initialShares, user });
+  const totalPlays = shares.reduce((sum, share) => sum + share.plays, 0);
+
+  return (
+    <>
+      <Head>
+        <title>Your shares - Chest Music</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <div style={{
+        minHeight: '100vh',
+        backgroundColor: '#000',
+        color: 'white',
+        padding: '64px 20px 40px',
+        position: 'relative'
+      }}>
+        <AccountStatus user={user} returnTo="/shares" />
+
+        <main style={{ maxWidth: '760px', margin: '0 auto' }}>
+          <h1 style={{ margin: '0 0 4px 0', fontSize: '28px', fontWeight: 600, letterSpacing: '-0.01em' }}>
+            Your shares
+          </h1>
+          <p style={{ margin: '0 0 24px 0', fontSize: '14px', opacity: 0.6 }}>
+            {shares.length} {shares.length === 1 ? 'link' : 'links'} · {totalPlays} {totalPlays === 1 ? 'play' : 'plays'}
+          </p>
+
+          {(loadError || error) && (
+            <p role="alert" style={{ margin: '0 0 16px 0', fontSize: '14px', color: '#fca5a5' }}>
+              {error || loadError}
+            </p>
+          )}
+
+          {!loadError && shares.length === 0 && (
+            <p style={{ fontSize: '15px', opacity: 0.7 }}>
+              You haven&apos;t shared anything yet. Links you share from Chest Music show up here.
+            </p>
+          )}
+
+          <ul style={{ margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '16px' }}>
+            {shares.map((share) => (
+              <ShareLinkCard
+                key={share.token}
+                share={share}
+                user={user}
+                isPending={pendingToken === share.token}
+                disabled={!!pendingToken && pendingToken !== share.token}
+                onSetPlayLimit={setPlayLimit}
+                onRevoke={revoke}
+                onRegenerate={regenerate}
+              />
+            ))}
+          </ul>
+        </main>
+      </div>
+    </>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps<SharesPageProps> = async (context) => {
+  const { user, client } = await getViewer(context.req);
+
+  // Only owners have anything to see here
+  if (!user) {
+    return {
+      redirect: {
+        destination: loginUrl('/shares'),
+        permanent: false,
+      },
+    };
+  }
+
+  try {
+    return {
+      props: { user, shares: await client.getMyShares() },
+    };
+  } catch (error) {
+    console.error('Failed to load shares:', error);
+    return {
+      props: { user, shares: [], error: describeApiError(getApiErrorCode(error)).message },
+    };
+  }
+};
+
+export default SharesPage;
@@ -0,0 +1,195 @@
+/**
+ * Service worker
+ *
+ * - App shell: Next's hashed build assets are served cache-first; the offline
+ *   page (plain HTML, so it needs none of them), manifest and icon are cached
+ *   on install.
+ * - Share and embed pages: network-first, falling back to the last copy seen
+ *   and then to /offline.html, so a share listened to before still opens offline.
+ *   Pages rendered for a signed-in viewer or an unlocked share aren't kept.
+ * - Audio: /offline-audio/<token>/<track> is answered from the audio cache with
+ *   Range support. On a miss it fetches the signed source in `src`, if that is
+ *   on one of the audio origins this worker was registered with
+ *   (lib/service-worker), and keeps a copy of what it plays. The page only asks
+ *   for these URLs on shares that allow downloads (lib/offline-audio).
+ */
+
+const VERSION = 'v1';
+const SHELL_CACHE = 'chest-shell-' + VERSION;
+const PAGE_CACHE = 'chest-pages-' + VERSION;
+// Outlives app versions, so an update doesn't drop everything listeners have cached
+const AUDIO_CACHE = 'chest-audio-v1';
+
+const SHELL_URLS = ['/offline.html', '/manifest.webmanifest', '/icon.svg'];
+const OFFLINE_AUDIO_PATH = /^\/offline-audio\/[^/]+\/[^/]+$/;
+const SHARE_PAGE_PATH = /^\/(share|embed)\/[^/]+\/?$/;
+// Set on pages rendered for one viewer; must match PERSONAL_PAGE_HEADER in lib/service-worker
+const PERSONAL_PAGE_HEADER = 'X-Chest-Personal';
+// Where signed audio may come from; anything else in `src` is refused, not followed
+const AUDIO_ORIGINS = (new URL(self.location.href).searchParams.get('audio') || '').split(' ').filter(Boolean);
+
+// Downloads in flight by cache key; the audio element may ask for several ranges at once
+const downloads = new Map();
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, PAGE_CACHE, AUDIO_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('chest-') && !current.includes(key))
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (OFFLINE_AUDIO_PATH.test(url.pathname)) {
+    event.respondWith(audioResponse(event, url));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(pageResponse(request, SHARE_PAGE_PATH.test(url.pathname)));
+  }
+});
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+async function pageResponse(request, keepCopy) {
+  try {
+    const response = await fetch(request);
+    if (keepCopy && response.ok && !response.headers.has(PERSONAL_PAGE_HEADER)) {
+      const cache = await caches.open(PAGE_CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    // ?t= deep links into a share still open its saved copy
+    const cached = keepCopy && await caches.match(request, { cacheName: PAGE_CACHE, ignoreSearch: true });
+    return cached || (await caches.match('/offline.html', { cacheName: SHELL_CACHE })) || Response.error();
+  }
+}
+
+async function audioResponse(event, url) {
+  const key = url.origin + url.pathname;
+  const cache = await caches.open(AUDIO_CACHE);
+  const range = event.request.headers.get('Range');
+  const cached = await cache.match(key);
+  if (cached) return rangeResponse(cached, range);
+
+  const source = audioSource(url.searchParams.get('src'));
+  if (!source) {
+    return new Response(null, { status: 404, statusText: 'Not Found' });
+  }
+
+  // Seeks ahead and requests racing the first one go straight to the source; only one
+  // download from the start is kept
+  if (downloads.has(key) || (range && !/^bytes=0-$/.test(range.trim()))) {
+    return Response.redirect(source, 302);
+  }
+
+  const pending = download(cache, key, source);
+  event.waitUntil(pending.then((download) => download.saved, () => undefined));
+  try {
+    return (await pending).response;
+  } catch (error) {
+    // No CORS on the source or no connection: the element fetches it itself, without an offline copy
+    return Response.redirect(source, 302);
+  }
+}
+
+function audioSource(src) {
+  try {
+    const source = new URL(src);
+    return AUDIO_ORIGINS.includes(source.origin) ? source.href : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Fetch the source once: the page plays the response while a copy of it goes into the cache
+function download(cache, key, source) {
+  const pending = fetch(source, { mode: 'cors', credentials: 'omit' })
+    .then((response) => {
+      // Opaque and partial responses can't be cut into ranges later, and only audio is kept
+      const type = response.headers.get('Content-Type') || '';
+      const saved = response.status === 200 && type.startsWith('audio/')
+        ? cache.put(key, response.clone()).catch(() => {
+          // Storage full or the download was cut off: no offline copy this time
+        })
+        : Promise.resolve();
+      return { response, saved: saved.then(() => downloads.delete(key)) };
+    }, (error) => {
+      downloads.delete(key);
+      throw error;
+    });
+  downloads.set(key, pending);
+  return pending;
+}
+
+async function rangeResponse(cached, range) {
+  const type = cached.headers.get('Content-Type') || 'audio/mpeg';
+  const blob = await cached.blob();
+  const size = blob.size;
+  const match = range && /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+
+  if (!match) {
+    return new Response(blob, {
+      status: 200,
+      headers: { 'Content-Type': type, 'Content-Length': String(size), 'Accept-Ranges': 'bytes' },
+    });
+  }
+
+  let start;
+  let end;
+  if (match[1]) {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  } else {
+    // bytes=-500 is the last 500 bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  }
+
+  if ((!match[1] && !match[2]) || start > end || start >= size) {
+    return new Response(null, {
+      status: 416,
+      statusText: 'Range Not Satisfiable',
+      headers: { 'Content-Range': 'bytes */' + size },
+    });
+  }
+
+  return new Response(blob.slice(start, end + 1, type), {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': type,
+      'Content-Length': String(end - start + 1),
+      'Content-Range': 'bytes ' + start + '-' + end + '/' + size,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
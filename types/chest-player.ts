@@ -1,4 +1,9 @@
 // Types extracted from Chest Player MF for integration
+
+// 'link': play_limit caps the share token's plays altogether.
+// 'listener': play_limit caps each listener (device or account) on their own.
+export type PlayLimitMode = 'link' | 'listener';
+
 export interface ChestTrack {
   id: string;
   name: string;
@@ -8,8 +13,14 @@ export interface ChestTrack {
   type?: string;
   plays?: number;
   play_limit?: number;
+  limit_mode?: PlayLimitMode; // 'link' when missing
+  listener_plays?: number; // In 'listener' mode, what the requesting listener has used of play_limit
   token?: string; // Para tracks compartidos
   isPlaying?: boolean;
+  peaks?: number[]; // Precomputed waveform amplitudes, 0..1
+  peaks_url?: string; // audiowaveform JSON file
+  owner_id?: string; // The owner listens to their own shares without limits
+  allow_download?: boolean; // The share lets listeners keep a copy, which also enables offline playback
 }
 
 export interface TrackSource {
@@ -21,18 +32,55 @@ export interface TrackSource {
   id: string;
   plays?: number;
   play_limit?: number;
+  peaks?: number[];
+  peaks_url?: string;
 }
 
 export interface SharedTrackData {
   id: string;
   token: string;
   play_limit: number;
-  plays: number;
+  plays: number; // Every listener together
+  limit_mode?: PlayLimitMode;
+  listener_plays?: number;
+  expires_at?: string; // The link stops working after this time
+  password_protected?: boolean; // Listeners unlock it first (see UnlockShareRequest)
+}
+
+// Who is asking for a share: listener counters depend on it
+export interface GetSharedCollectionRequest {
+  access?: string; // For password-protected shares
+  device_id?: string; // Anonymous listener, see lib/device-id
+}
+
+export interface UnlockShareRequest {
+  token: string;
+  password: string;
+}
+
+// Proof that a listener passed a share's password; sent along as `access`
+export interface ShareAccess {
+  access_token: string;
+  expires_at?: string;
+}
+
+// A share token resolves to a single track or a whole playlist/album
+export interface SharedCollection {
+  id: string;
+  token: string;
+  name: string;
+  type: 'track' | 'playlist' | 'album';
+  authors?: string[];
+  cover?: string;
+  comment_policy?: CommentPolicy;
+  expires_at?: string;
+  tracks: ChestTrack[];
 }
 
 export interface PlayLimitState {
   playCount: number;
   playLimit: number | null;
+  limitMode: PlayLimitMode; // In 'listener' mode the counters are this listener's
   isLimitReached: boolean;
   hasDecremented: boolean;
 }
@@ -45,19 +93,196 @@ export interface GetTrackSourceRequest {
 
 export interface GetTrackSourceResponse {
   url: string;
+  expires_at?: string; // Signed URLs stop working after this time
 }
 
 export interface UpdateTrackPlayRequest {
   id: string;
   anonymous?: boolean;
   token?: string;
+  device_id?: string; // Identifies an anonymous listener for per-listener limits
 }
 
+// In 'listener' mode, `plays` in play responses is the listener's own count
 export interface UpdateTrackPlayResponse {
   success: boolean;
   plays?: number;
 }
 
+// Play sessions: the server decides when a play counts
+export type PlaybackStatus = 'playing' | 'paused' | 'ended';
+
+export interface StartPlaySessionRequest {
+  id: string;
+  token?: string;
+  anonymous?: boolean;
+  access?: string; // For password-protected shares
+  device_id?: string;
+}
+
+export interface PlaySession {
+  session_id: string;
+  signature: string; // Echoed back on every heartbeat
+  heartbeat_interval: number; // Seconds between heartbeats
+  expires_at?: string;
+  plays: number;
+  play_limit?: number | null;
+  limit_reached: boolean; // When true the session was refused
+}
+
+export interface PlayHeartbeatRequest {
+  session_id: string;
+  signature: string;
+  position: number;
+  duration?: number;
+  state: PlaybackStatus;
+}
+
+export interface PlayHeartbeatResponse {
+  counted: boolean; // True once the server has counted this session as a play
+  plays: number;
+  play_limit?: number | null;
+  limit_reached: boolean;
+  signature?: string; // Rotated signature for the next heartbeat
+}
+
+// Listeners can ask the owner for more plays once a limit is reached
+export type PlayRequestStatus = 'pending' | 'approved' | 'denied';
+
+export interface CreatePlayRequestRequest {
+  id: string; // Track
+  token?: string;
+  access?: string;
+  message?: string;
+  email?: string; // Lets the owner answer outside the app too
+  device_id?: string; // Per-listener shares grant the plays to this listener only
+}
+
+export interface PlayRequest {
+  id: string;
+  track_id: string;
+  status: PlayRequestStatus;
+  play_limit?: number | null; // The raised limit, once approved
+  plays?: number;
+  created_at: string;
+}
+
+// Timestamped feedback on shared tracks
+export type CommentPolicy = 'disabled' | 'authenticated' | 'anonymous'; // anonymous = display name only
+
+export interface TrackComment {
+  id: string;
+  track_id: string;
+  body: string;
+  position: number; // Seconds into the track
+  author_name: string;
+  anonymous?: boolean;
+  created_at: string;
+}
+
+export interface GetCommentsRequest {
+  id: string;
+  token?: string;
+  access?: string;
+}
+
+export interface PostCommentRequest {
+  id: string;
+  token?: string;
+  body: string;
+  position: number;
+  author_name?: string; // Required when commenting anonymously
+  access?: string;
+}
+
+// Accounts
+export interface ChestUser {
+  id: string;
+  name: string;
+  email?: string;
+  avatar?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface AuthSession {
+  token: string; // Sent as a bearer token; kept in an httpOnly cookie by the app
+  expires_at?: string;
+  user: ChestUser;
+}
+
+// Listening analytics, see lib/analytics
+export type ListeningEventType = 'play' | 'pause' | 'seek' | 'stall' | 'ended' | 'completion';
+
+export interface ListeningEvent {
+  type: ListeningEventType;
+  track_id: string;
+  play_id: string; // Groups the events of one play of a track
+  position: number; // Seconds into the track
+  at: number; // Epoch milliseconds
+  from?: number; // seek
+  to?: number; // seek
+  stall_ms?: number; // stall: how long playback waited for data
+  percent?: number; // completion: share of the track heard so far, 0..100; a later one for the same play supersedes it
+}
+
+export interface ListeningEventBatch {
+  token: string; // The share the events were heard through
+  device_id?: string; // Anonymous listener; signed-in ones are known from their session
+  events: ListeningEvent[];
+}
+
+// Owner dashboard (pages/shares): the share links a signed-in owner has made
+export interface ShareLink {
+  token: string;
+  name: string; // Of the shared track, playlist or album
+  type: SharedCollection['type'];
+  cover?: string;
+  plays: number;
+  play_limit: number | null; // null when unlimited
+  limit_mode?: PlayLimitMode;
+  created_at: string;
+  last_played_at?: string;
+  expires_at?: string;
+  password_protected?: boolean;
+  allow_download?: boolean; // Listeners may download the audio
+}
+
+// Mint a share link for one of the owner's tracks
+export interface CreateShareRequest {
+  track_id: string;
+  play_limit?: number | null; // Unlimited when left out
+  limit_mode?: PlayLimitMode;
+  expires_at?: string;
+  password?: string;
+  allow_download?: boolean;
+}
+
+export interface ShareDailyPlays {
+  date: string; // YYYY-MM-DD, UTC
+  plays: number;
+}
+
+// How many of the plays were still going at a point of the track
+export interface ShareDropoffPoint {
+  position: number; // Percent of the track, 0..100
+  listeners: number; // Percent of plays, 0..100
+}
+
+export interface ShareStats {
+  token: string;
+  daily_plays: ShareDailyPlays[]; // Oldest first, days without plays included
+  dropoff: ShareDropoffPoint[]; // By position; built from listening events (lib/analytics)
+}
+
+export interface UpdateShareRequest {
+  token: string;
+  play_limit: number | null;
+}
+
 // SEO and meta tags
 export interface TrackMeta {
   title: string;
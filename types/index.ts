@@ -1,11 +1,18 @@
+import type { PlaybackStatus } from './chest-player';
+
 // Legacy types (keep for compatibility)
 export interface Track {
+  id?: string;
   title: string;
   artist: string;
   cover: string;
   url: string;
+  peaks?: number[]; // Waveform amplitudes, 0..1
+  peaksUrl?: string; // audiowaveform JSON
 }
 
+export type RepeatMode = 'off' | 'all' | 'one';
+
 export interface PlayerState {
   isPlaying: boolean;
   currentTime: number;
@@ -13,20 +20,82 @@ export interface PlayerState {
   currentTrackIndex: number;
   volume: number;
   isMuted: boolean;
-  isLooping: boolean;
+  repeatMode: RepeatMode;
   isShuffled: boolean;
-  showVolumeSlider: boolean;
+  upNext: number[]; // Indices into the track list, in play order
+}
+
+// A play counts once the listener passes either threshold, whichever comes first
+export interface PlayCountThreshold {
+  seconds?: number;
+  percent?: number;
+}
+
+// Short-lived audio URL resolved right before playback
+export interface ResolvedSource {
+  url: string;
+  expiresAt?: number; // Epoch milliseconds
+}
+
+export interface PlaybackProgress {
+  trackId?: string;
+  position: number;
+  duration: number;
+  state: PlaybackStatus;
+}
+
+// "Resume from 12:34?" for a track that was left part-way through
+export interface ResumeOffer {
+  position: number; // Seconds
+  resume: () => void;
+  dismiss: () => void;
+}
+
+// Point of interest drawn on the progress bar, e.g. a comment
+export interface ProgressMarker {
+  id: string;
+  position: number; // Seconds
+  label?: string;
 }
 
 // New Chest Player integration types
 export type {
   ChestTrack,
   TrackSource,
+  PlayLimitMode,
   SharedTrackData,
+  GetSharedCollectionRequest,
+  UnlockShareRequest,
+  ShareAccess,
+  SharedCollection,
   PlayLimitState,
   GetTrackSourceRequest,
   GetTrackSourceResponse,
   UpdateTrackPlayRequest,
   UpdateTrackPlayResponse,
+  PlaybackStatus,
+  StartPlaySessionRequest,
+  PlaySession,
+  PlayHeartbeatRequest,
+  PlayHeartbeatResponse,
+  PlayRequestStatus,
+  CreatePlayRequestRequest,
+  PlayRequest,
+  CommentPolicy,
+  TrackComment,
+  GetCommentsRequest,
+  PostCommentRequest,
+  ChestUser,
+  LoginRequest,
+  AuthSession,
+  ListeningEventType,
+  ListeningEvent,
+  ListeningEventBatch,
+  ShareLink,
+  CreateShareRequest,
+  ShareDailyPlays,
+  ShareDropoffPoint,
+  ShareStats,
+  UpdateShareRequest,
   TrackMeta
 } from './chest-player';
\ No newline at end of file
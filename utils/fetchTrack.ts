@@ -13,7 +13,7 @@ export interface FetchTrackResponse {
 export const fetchTrack = async (token: string): Promise<FetchTrackResponse> => {
   try {
     // TODO: Implement actual API call to backend
-    const response = await fetch(`${API_BASE_URL}/api/share/${token}`);
+    const response = await fetch(`${API_BASE_URL}/api/share/${encodeURIComponent(token)}`);
     
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
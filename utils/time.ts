@@ -0,0 +1,70 @@
+/**
+ * Format seconds as m:ss for player time displays
+ */
+export function formatTime(time: number): string {
+  if (!time || isNaN(time)) return '0:00';
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+const TIME_UNITS: Record<string, number> = { h: 3600, m: 60, s: 1 };
+
+/**
+ * Parse a deep-link time: "130", "130.5", "2m10s", "1h2m", "2:10" or "1:02:10".
+ * Returns seconds, or null when the value is missing or malformed.
+ */
+export function parseTimeParam(value: string | string[] | undefined): number | null {
+  const raw = (Array.isArray(value) ? value[0] : value)?.trim().toLowerCase();
+  if (!raw) return null;
+
+  let seconds: number | null = null;
+
+  if (/^\d+(\.\d+)?$/.test(raw)) {
+    seconds = parseFloat(raw);
+  } else if (/^(\d+:)?\d{1,2}:\d{1,2}$/.test(raw)) {
+    seconds = raw.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  } else if (/^(\d+h)?(\d+m)?(\d+(\.\d+)?s)?$/.test(raw)) {
+    const parts: string[] = raw.match(/\d+(\.\d+)?[hms]/g) || [];
+    seconds = parts.reduce((total, part) => total + parseFloat(part) * TIME_UNITS[part.slice(-1)], 0);
+  }
+
+  return seconds !== null && Number.isFinite(seconds) ? seconds : null;
+}
+
+/**
+ * Format seconds for a deep link, e.g. 130 -> "2m10s"
+ */
+export function formatTimeParam(time: number): string {
+  const total = Math.max(0, Math.floor(time));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+
+  return [
+    hours ? `${hours}h` : '',
+    minutes ? `${minutes}m` : '',
+    seconds || (!hours && !minutes) ? `${seconds}s` : '',
+  ].join('');
+}
+
+// Fixed locale and zone, so server and browser render the same text
+const DATE_FORMAT = new Intl.DateTimeFormat('en-US', { dateStyle: 'long', timeZone: 'UTC' });
+
+/**
+ * Format an ISO date for display, e.g. "March 4, 2026"
+ */
+export function formatDate(value: string): string {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : DATE_FORMAT.format(time);
+}
+
+const DAY_FORMAT = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Format a day for chart labels, e.g. "2026-03-04" -> "Mar 4"
+ */
+export function formatDay(value: string): string {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : DAY_FORMAT.format(time);
+}
@@ -5,10 +5,13 @@ import { Track, ChestTrack } from '@/types';
  */
 export function chestTrackToTrack(chestTrack: ChestTrack): Track {
   return {
+    id: chestTrack.id,
     title: chestTrack.name,
     artist: chestTrack.authors?.join(', ') || 'Unknown Artist',
     cover: chestTrack.cover || 'https://cdn.chestmusic.com/cover-default.jpg',
     url: chestTrack.audio || '',
+    peaks: chestTrack.peaks,
+    peaksUrl: chestTrack.peaks_url,
   };
 }
 
@@ -0,0 +1,118 @@
+/**
+ * Waveform peaks helpers
+ *
+ * Peaks are amplitudes normalised to 0..1, loudest bar = 1. They come from the
+ * API (inline or as an audiowaveform JSON file) or are decoded from the audio
+ * in the browser when a track has none.
+ */
+
+// Bars decoded per track; the canvas resamples to whatever fits
+const DECODED_PEAK_COUNT = 800;
+
+// Output of `audiowaveform --output-format json`
+export interface AudiowaveformData {
+  version?: number;
+  channels?: number;
+  sample_rate?: number;
+  samples_per_pixel?: number;
+  bits: 8 | 16;
+  length: number;
+  data: number[]; // min/max pairs per pixel, interleaved per channel
+}
+
+export function normalizePeaks(peaks: number[]): number[] {
+  const max = peaks.reduce((loudest, peak) => Math.max(loudest, Math.abs(peak)), 0);
+  if (!max) return peaks.map(() => 0);
+  return peaks.map((peak) => Math.abs(peak) / max);
+}
+
+/**
+ * Collapse audiowaveform min/max pairs (all channels) into one peak per pixel
+ */
+export function parseAudiowaveform(json: AudiowaveformData): number[] {
+  const stride = (json.channels || 1) * 2;
+  const peaks: number[] = [];
+
+  for (let i = 0; i + stride <= json.data.length; i += stride) {
+    let peak = 0;
+    for (let j = i; j < i + stride; j++) {
+      peak = Math.max(peak, Math.abs(json.data[j]));
+    }
+    peaks.push(peak);
+  }
+
+  return normalizePeaks(peaks);
+}
+
+/**
+ * Resample peaks to `count` bars, keeping the loudest value of each bucket
+ */
+export function resamplePeaks(peaks: number[], count: number): number[] {
+  if (count <= 0 || !peaks.length) return [];
+  if (count === peaks.length) return peaks;
+
+  const bars: number[] = [];
+  for (let bar = 0; bar < count; bar++) {
+    const start = Math.floor((bar * peaks.length) / count);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * peaks.length) / count));
+    let peak = 0;
+    for (let i = start; i < end && i < peaks.length; i++) {
+      peak = Math.max(peak, peaks[i]);
+    }
+    bars.push(peak);
+  }
+  return bars;
+}
+
+/**
+ * Load a peaks file: audiowaveform JSON or a plain array of amplitudes
+ */
+export async function fetchPeaks(url: string): Promise<number[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load waveform peaks: ${response.status}`);
+  }
+
+  const json: AudiowaveformData | number[] = await response.json();
+  return Array.isArray(json) ? normalizePeaks(json) : parseAudiowaveform(json);
+}
+
+/**
+ * Fallback: download and decode the audio itself. Costs a full download, so
+ * only used for tracks without precomputed peaks.
+ */
+export async function decodePeaks(url: string, count = DECODED_PEAK_COUNT): Promise<number[]> {
+  if (typeof OfflineAudioContext === 'undefined') {
+    throw new Error('Web Audio is not supported');
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load audio for waveform: ${response.status}`);
+  }
+  const data = await response.arrayBuffer();
+
+  // An offline context decodes without a user gesture and never outputs sound
+  const context = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await new Promise<AudioBuffer>((resolve, reject) => {
+    context.decodeAudioData(data, resolve, reject);
+  });
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  const bucketSize = Math.max(1, Math.floor(buffer.length / count));
+  const peaks: number[] = [];
+
+  for (let start = 0; start < buffer.length && peaks.length < count; start += bucketSize) {
+    const end = Math.min(start + bucketSize, buffer.length);
+    let peak = 0;
+    channels.forEach((samples) => {
+      for (let i = start; i < end; i++) {
+        const amplitude = Math.abs(samples[i]);
+        if (amplitude > peak) peak = amplitude;
+      }
+    });
+    peaks.push(peak);
+  }
+
+  return normalizePeaks(peaks);
+}